@@ -5,11 +5,13 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import CrawlerPage from "@/pages/crawler";
+import DiffPage from "@/pages/diff";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={CrawlerPage} />
+      <Route path="/diff/:id/:otherId" component={DiffPage} />
       <Route component={NotFound} />
     </Switch>
   );
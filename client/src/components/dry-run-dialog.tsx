@@ -0,0 +1,128 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { DryRunLink, DryRunResult } from "@shared/schema";
+
+type LinkFilter = "all" | "matched" | "unmatched" | "out-of-scope";
+
+const filters: Record<LinkFilter, (link: DryRunLink) => boolean> = {
+  all: () => true,
+  matched: (link) => link.matched,
+  unmatched: (link) => link.inScope && !link.matched,
+  "out-of-scope": (link) => !link.inScope,
+};
+
+interface DryRunDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  result: DryRunResult | undefined;
+  isPending: boolean;
+  error: Error | null;
+}
+
+export function DryRunDialog({ open, onOpenChange, result, isPending, error }: DryRunDialogProps) {
+  const [search, setSearch] = useState("");
+  const [filter, setFilter] = useState<LinkFilter>("all");
+
+  const links = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (result?.links ?? [])
+      .filter(filters[filter])
+      .filter((link) => !query || link.url.toLowerCase().includes(query));
+  }, [result, search, filter]);
+
+  const matchedCount = result?.links.filter((link) => link.matched).length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Discovery Dry Run</DialogTitle>
+        </DialogHeader>
+
+        {isPending && <p className="text-sm text-muted-foreground">Following links...</p>}
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {result && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{result.pagesVisited} pages visited</Badge>
+              <Badge variant="secondary">{result.links.length} links found</Badge>
+              <Badge className="bg-green-100 text-green-700">{matchedCount} would be crawled</Badge>
+              {result.truncated && (
+                <Badge className="bg-yellow-100 text-yellow-700">Stopped at page limit</Badge>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Filter URLs"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="font-mono text-sm"
+              />
+              <Select value={filter} onValueChange={(value) => setFilter(value as LinkFilter)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All links</SelectItem>
+                  <SelectItem value="matched">Matched</SelectItem>
+                  <SelectItem value="unmatched">Not matched</SelectItem>
+                  <SelectItem value="out-of-scope">Out of scope</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex-1 overflow-y-auto rounded-md border border-border">
+              {links.map((link) => (
+                <div
+                  key={link.url}
+                  className="flex items-center justify-between gap-2 border-b border-border px-3 py-2 text-sm last:border-b-0"
+                >
+                  <div className="min-w-0">
+                    <p className={`truncate font-mono ${link.inScope ? "" : "text-muted-foreground"}`}>{link.url}</p>
+                    {link.matchedPattern && (
+                      <p className="truncate font-mono text-xs text-muted-foreground">
+                        matched {link.matchedPattern}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Badge variant="outline">depth {link.depth}</Badge>
+                    {link.followed && <Badge variant="outline">followed</Badge>}
+                    {!link.inScope ? (
+                      <Badge className="bg-gray-100 text-gray-600">out of scope</Badge>
+                    ) : link.matched ? (
+                      <Badge className="bg-green-100 text-green-700">matched</Badge>
+                    ) : (
+                      <Badge className="bg-red-100 text-red-700">no match</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {links.length === 0 && (
+                <p className="p-3 text-sm text-muted-foreground">No links match this filter.</p>
+              )}
+            </div>
+
+            {result.errors.length > 0 && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-muted-foreground">
+                  {result.errors.length} pages could not be followed
+                </summary>
+                <ul className="mt-2 space-y-1 font-mono text-xs text-destructive">
+                  {result.errors.map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
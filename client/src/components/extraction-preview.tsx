@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { RefreshCw, X } from "lucide-react";
+import type { ExtractionPreview, ExtractionRequest } from "@shared/schema";
+
+// Wait this long after the last settings change before re-running the preview
+const PREVIEW_DEBOUNCE_MS = 600;
+
+function isValidUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ExtractionPreviewPanelProps {
+  request: ExtractionRequest;
+  onClose: () => void;
+}
+
+export function ExtractionPreviewPanel({ request, onClose }: ExtractionPreviewPanelProps) {
+  const [debouncedRequest, setDebouncedRequest] = useState(request);
+  const requestKey = JSON.stringify(request);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedRequest(request), PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [requestKey]);
+
+  const { data: preview, error, isFetching, refetch } = useQuery<ExtractionPreview>({
+    queryKey: ["/api/preview", debouncedRequest],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/preview", debouncedRequest);
+      return response.json();
+    },
+    enabled: isValidUrl(debouncedRequest.url),
+    placeholderData: keepPreviousData,
+  });
+
+  // Relative links and images in the cleaned HTML should resolve against the page
+  const previewDocument = preview
+    ? `<base href="${debouncedRequest.url.replace(/"/g, "&quot;")}" target="_blank">${preview.content}`
+    : "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <CardTitle>Extraction Preview</CardTitle>
+            <p className="truncate text-sm text-muted-foreground">
+              {preview ? preview.title : debouncedRequest.url || "Enter a URL to preview"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {preview && (
+              <Badge variant="secondary">
+                {preview.timing.cached ? "cached" : `fetch ${preview.timing.fetchMs} ms`}
+                {" · "}extract {preview.timing.extractMs} ms
+              </Badge>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              disabled={isFetching || !isValidUrl(debouncedRequest.url)}
+              onClick={() => refetch()}
+            >
+              <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <p className="mb-4 text-sm text-destructive">
+            {error instanceof Error ? error.message : "Failed to preview page"}
+          </p>
+        )}
+        <ResizablePanelGroup direction="horizontal" className="min-h-[32rem] rounded-md border border-border">
+          <ResizablePanel defaultSize={50} minSize={20}>
+            <div className="flex h-full flex-col">
+              <div className="border-b border-border px-3 py-2 text-xs font-medium text-muted-foreground">
+                Cleaned HTML
+              </div>
+              {/* Sandboxed without scripts so previewed pages can't run code here */}
+              <iframe
+                title="Cleaned HTML preview"
+                sandbox=""
+                srcDoc={previewDocument}
+                className="h-full w-full flex-1 bg-white"
+              />
+            </div>
+          </ResizablePanel>
+          <ResizableHandle withHandle />
+          <ResizablePanel defaultSize={50} minSize={20}>
+            <div className="flex h-full flex-col">
+              <div className="border-b border-border px-3 py-2 text-xs font-medium text-muted-foreground">
+                Markdown
+              </div>
+              <pre className="flex-1 overflow-auto whitespace-pre-wrap p-3 font-mono text-xs">
+                {preview?.markdownContent ?? (isFetching ? "Loading preview..." : "")}
+              </pre>
+            </div>
+          </ResizablePanel>
+        </ResizablePanelGroup>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { FolderOpen, Play, Trash2 } from "lucide-react";
+import type { CrawlConfig, CrawlConfigSettings, CrawlJob } from "@shared/schema";
+
+interface SavedConfigsCardProps {
+  loadedConfigId: number | null;
+  onLoad: (config: CrawlConfig) => void;
+  onJobStarted: (job: CrawlJob) => void;
+}
+
+export function SavedConfigsCard({ loadedConfigId, onLoad, onJobStarted }: SavedConfigsCardProps) {
+  const { toast } = useToast();
+
+  const { data: configs = [] } = useQuery<CrawlConfig[]>({
+    queryKey: ["/api/crawl-configs"],
+  });
+
+  const startJobMutation = useMutation({
+    mutationFn: async (configId: number): Promise<CrawlJob> => {
+      const response = await apiRequest("POST", `/api/crawl-configs/${configId}/jobs`);
+      return response.json();
+    },
+    onSuccess: (job) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/crawl-jobs"] });
+      onJobStarted(job);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (configId: number) => {
+      await apiRequest("DELETE", `/api/crawl-configs/${configId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/crawl-configs"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Saved Configurations</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {configs.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Use "Save Configuration" to keep the current settings for later.
+          </p>
+        )}
+        {configs.map((config) => (
+          <div key={config.id} className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="truncate text-sm font-medium text-foreground">{config.name}</span>
+                <Badge variant="outline">v{config.version}</Badge>
+                {config.id === loadedConfigId && <Badge variant="secondary">loaded</Badge>}
+              </div>
+              <p className="truncate text-xs text-muted-foreground">{config.settings.baseUrl}</p>
+            </div>
+            <div className="flex shrink-0 items-center">
+              <Button variant="ghost" size="icon" title="Load into form" onClick={() => onLoad(config)}>
+                <FolderOpen className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Start crawl"
+                disabled={startJobMutation.isPending}
+                onClick={() => startJobMutation.mutate(config.id)}
+              >
+                <Play className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(config.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface SaveConfigDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: CrawlConfigSettings;
+  // The configuration the form was loaded from, offered as the one to update
+  loadedConfig: CrawlConfig | null;
+  onSaved: (config: CrawlConfig) => void;
+}
+
+export function SaveConfigDialog({ open, onOpenChange, settings, loadedConfig, onSaved }: SaveConfigDialogProps) {
+  const [name, setName] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setName(loadedConfig?.name ?? "");
+    }
+  }, [open, loadedConfig]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (update: boolean): Promise<CrawlConfig> => {
+      const response = update && loadedConfig
+        ? await apiRequest("PUT", `/api/crawl-configs/${loadedConfig.id}`, { name, settings })
+        : await apiRequest("POST", "/api/crawl-configs", { name, settings });
+      return response.json();
+    },
+    onSuccess: (config) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/crawl-configs"] });
+      onSaved(config);
+      onOpenChange(false);
+      toast({
+        title: "Configuration Saved",
+        description: `${config.name} is at version ${config.version}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save Configuration</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="configName">Name</Label>
+          <Input
+            id="configName"
+            placeholder="Docs site, weekly"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <DialogFooter className="gap-2">
+          {loadedConfig && (
+            <Button
+              variant="outline"
+              disabled={!name.trim() || saveMutation.isPending}
+              onClick={() => saveMutation.mutate(true)}
+            >
+              Update v{loadedConfig.version}
+            </Button>
+          )}
+          <Button
+            disabled={!name.trim() || saveMutation.isPending}
+            onClick={() => saveMutation.mutate(false)}
+          >
+            Save as New
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,327 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, History, Pencil, Plus, Trash2 } from "lucide-react";
+import type { CrawlConfig, CrawlSchedule, CrawlScheduleRun, InsertCrawlSchedule } from "@shared/schema";
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+const outcomeBadges: Record<CrawlScheduleRun["outcome"], string> = {
+  started: "bg-green-100 text-green-700",
+  skipped: "bg-yellow-100 text-yellow-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+function formatDateTime(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export function SchedulesCard() {
+  const [editing, setEditing] = useState<CrawlSchedule | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [historyFor, setHistoryFor] = useState<CrawlSchedule | null>(null);
+  const { toast } = useToast();
+
+  const { data: schedules = [] } = useQuery<CrawlSchedule[]>({
+    queryKey: ["/api/crawl-schedules"],
+    // Next and last run times move on their own as the scheduler fires
+    refetchInterval: 30000,
+  });
+
+  const { data: configs = [] } = useQuery<CrawlConfig[]>({
+    queryKey: ["/api/crawl-configs"],
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: number; enabled: boolean }) => {
+      await apiRequest("PUT", `/api/crawl-schedules/${id}`, { enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/crawl-schedules"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/crawl-schedules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/crawl-schedules"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (schedule: CrawlSchedule | null) => {
+    setEditing(schedule);
+    setDialogOpen(true);
+  };
+
+  const configName = (configId: number) =>
+    configs.find((config) => config.id === configId)?.name ?? `Configuration ${configId}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Schedules</CardTitle>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="New schedule"
+            disabled={configs.length === 0}
+            onClick={() => openDialog(null)}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {schedules.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {configs.length === 0
+              ? "Save a configuration first, then schedule it to run automatically."
+              : "Run a saved configuration automatically on a cron schedule."}
+          </p>
+        )}
+        {schedules.map((schedule) => (
+          <div key={schedule.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex min-w-0 items-center gap-2">
+                <Switch
+                  checked={schedule.enabled}
+                  disabled={toggleMutation.isPending}
+                  onCheckedChange={(enabled) => toggleMutation.mutate({ id: schedule.id, enabled })}
+                />
+                <span className="truncate text-sm font-medium text-foreground">{schedule.name}</span>
+              </div>
+              <div className="flex shrink-0 items-center">
+                <Button variant="ghost" size="icon" title="Run history" onClick={() => setHistoryFor(schedule)}>
+                  <History className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" title="Edit" onClick={() => openDialog(schedule)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Delete"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(schedule.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <p className="truncate text-xs text-muted-foreground">
+              {configName(schedule.configId)} · <span className="font-mono">{schedule.cronExpression}</span> ({schedule.timezone})
+            </p>
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <CalendarClock className="h-3 w-3" />
+              {schedule.enabled ? `Next run ${formatDateTime(schedule.nextRunAt)}` : "Paused"}
+            </p>
+          </div>
+        ))}
+      </CardContent>
+
+      <ScheduleDialog open={dialogOpen} onOpenChange={setDialogOpen} schedule={editing} configs={configs} />
+      <ScheduleRunsDialog schedule={historyFor} onOpenChange={(open) => !open && setHistoryFor(null)} />
+    </Card>
+  );
+}
+
+interface ScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Null when creating a new schedule
+  schedule: CrawlSchedule | null;
+  configs: CrawlConfig[];
+}
+
+function ScheduleDialog({ open, onOpenChange, schedule, configs }: ScheduleDialogProps) {
+  const [values, setValues] = useState<InsertCrawlSchedule>({
+    name: "",
+    configId: 0,
+    cronExpression: "0 2 * * *",
+    timezone: browserTimezone,
+    enabled: true,
+  });
+  const { toast } = useToast();
+  const defaultConfigId = configs[0]?.id ?? 0;
+
+  useEffect(() => {
+    if (!open) return;
+    setValues(schedule
+      ? {
+          name: schedule.name,
+          configId: schedule.configId,
+          cronExpression: schedule.cronExpression,
+          timezone: schedule.timezone,
+          enabled: schedule.enabled,
+        }
+      : {
+          name: "",
+          configId: defaultConfigId,
+          cronExpression: "0 2 * * *",
+          timezone: browserTimezone,
+          enabled: true,
+        });
+  }, [open, schedule, defaultConfigId]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<CrawlSchedule> => {
+      const response = schedule
+        ? await apiRequest("PUT", `/api/crawl-schedules/${schedule.id}`, values)
+        : await apiRequest("POST", "/api/crawl-schedules", values);
+      return response.json();
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/crawl-schedules"] });
+      onOpenChange(false);
+      toast({
+        title: "Schedule Saved",
+        description: saved.nextRunAt
+          ? `${saved.name} next runs ${formatDateTime(saved.nextRunAt)}.`
+          : `${saved.name} is paused.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{schedule ? "Edit Schedule" : "New Schedule"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="scheduleName">Name</Label>
+            <Input
+              id="scheduleName"
+              placeholder="Nightly docs refresh"
+              value={values.name}
+              onChange={(e) => setValues({ ...values, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Configuration</Label>
+            <Select
+              value={values.configId ? String(values.configId) : undefined}
+              onValueChange={(value) => setValues({ ...values, configId: parseInt(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a saved configuration" />
+              </SelectTrigger>
+              <SelectContent>
+                {configs.map((config) => (
+                  <SelectItem key={config.id} value={String(config.id)}>
+                    {config.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Each run uses the latest version of the configuration.</p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="cronExpression">Cron Expression</Label>
+              <Input
+                id="cronExpression"
+                className="font-mono"
+                placeholder="0 2 * * *"
+                value={values.cronExpression}
+                onChange={(e) => setValues({ ...values, cronExpression: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">minute hour day month weekday</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="timezone">Timezone</Label>
+              <Input
+                id="timezone"
+                placeholder="UTC"
+                value={values.timezone ?? ""}
+                onChange={(e) => setValues({ ...values, timezone: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="scheduleEnabled"
+              checked={values.enabled ?? true}
+              onCheckedChange={(enabled) => setValues({ ...values, enabled })}
+            />
+            <Label htmlFor="scheduleEnabled">Enabled</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            disabled={!values.name.trim() || !values.configId || saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+          >
+            {schedule ? "Save Changes" : "Create Schedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ScheduleRunsDialogProps {
+  schedule: CrawlSchedule | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ScheduleRunsDialog({ schedule, onOpenChange }: ScheduleRunsDialogProps) {
+  const { data: runs = [], isLoading } = useQuery<CrawlScheduleRun[]>({
+    queryKey: ["/api/crawl-schedules", schedule?.id, "runs"],
+    enabled: schedule !== null,
+  });
+
+  return (
+    <Dialog open={schedule !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Run History{schedule ? `: ${schedule.name}` : ""}</DialogTitle>
+        </DialogHeader>
+        <div className="flex-1 overflow-y-auto rounded-md border border-border">
+          {runs.map((run) => (
+            <div
+              key={run.id}
+              className="flex items-center justify-between gap-2 border-b border-border px-3 py-2 text-sm last:border-b-0"
+            >
+              <div className="min-w-0">
+                <p>{formatDateTime(run.scheduledFor)}</p>
+                {run.message && <p className="truncate text-xs text-muted-foreground">{run.message}</p>}
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                {run.jobId !== null && <Badge variant="outline">Job #{run.jobId}</Badge>}
+                <Badge className={outcomeBadges[run.outcome]}>{run.outcome}</Badge>
+              </div>
+            </div>
+          ))}
+          {runs.length === 0 && (
+            <p className="p-3 text-sm text-muted-foreground">
+              {isLoading ? "Loading runs..." : "This schedule has not run yet."}
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { CrawlEvent, CrawlJob, CrawlResult, QueueStatus } from "@shared/schema";
+
+const MAX_LOG_LINES = 200;
+const RECONNECT_DELAY = 3000;
+
+export type CrawlLogLine = Extract<CrawlEvent, { type: "log" }>;
+
+/**
+ * Subscribes to live events for a job over /ws and writes them straight into
+ * the React Query cache. `connected` is false while the socket is down, so
+ * callers can fall back to polling.
+ */
+export function useCrawlEvents(jobId: number | null) {
+  const [connected, setConnected] = useState(false);
+  const [logs, setLogs] = useState<CrawlLogLine[]>([]);
+
+  useEffect(() => {
+    setLogs([]);
+    if (!jobId) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws?jobId=${jobId}`);
+
+      socket.onopen = () => {
+        setConnected(true);
+        // Catch up on anything that happened while we were disconnected
+        queryClient.invalidateQueries({ queryKey: ["/api/crawl-jobs"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/queue"] });
+      };
+
+      socket.onmessage = (message) => {
+        const event: CrawlEvent = JSON.parse(message.data);
+        switch (event.type) {
+          case "job":
+            queryClient.setQueryData<CrawlJob>(["/api/crawl-jobs", event.job.id], event.job);
+            queryClient.setQueryData<CrawlJob[]>(["/api/crawl-jobs"], (jobs) =>
+              jobs?.map((job) => (job.id === event.job.id ? event.job : job))
+            );
+            break;
+          case "result":
+            queryClient.setQueryData<CrawlResult[]>(
+              ["/api/crawl-jobs", event.result.jobId, "results"],
+              (results = []) => [event.result, ...results.filter((r) => r.id !== event.result.id)]
+            );
+            break;
+          case "log":
+            setLogs((lines) => [event, ...lines].slice(0, MAX_LOG_LINES));
+            break;
+          case "queue":
+            queryClient.setQueryData<QueueStatus>(["/api/queue"], event.queue);
+            break;
+        }
+      };
+
+      socket.onclose = () => {
+        setConnected(false);
+        if (!disposed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      setConnected(false);
+    };
+  }, [jobId]);
+
+  return { connected, logs };
+}
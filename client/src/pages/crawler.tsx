@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
+import { Link } from "wouter";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -17,6 +18,11 @@ import { Separator } from "@/components/ui/separator";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useCrawlEvents } from "@/hooks/use-crawl-events";
+import { ExtractionPreviewPanel } from "@/components/extraction-preview";
+import { DryRunDialog } from "@/components/dry-run-dialog";
+import { SavedConfigsCard, SaveConfigDialog } from "@/components/saved-configs";
+import { SchedulesCard } from "@/components/schedules";
 import { 
   Worm, 
   Settings, 
@@ -33,83 +39,300 @@ import {
   Square,
   Plus,
   Trash2,
-  Book
+  Book,
+  RefreshCw,
+  GitCompare,
+  FlaskConical,
+  Eye,
+  Route
 } from "lucide-react";
-import type { CrawlJob, CrawlResult } from "@shared/schema";
+import { urlNormalizationSchema, errorCategories, type ErrorCategory, type CrawlJob, type CrawlResult, type ExtractionRequest, type SelectorTestResult, type DryRunResult, type CrawlConfig, type CrawlConfigSettings, type QueueStatus } from "@shared/schema";
 
 const crawlJobSchema = z.object({
   baseUrl: z.string().url("Please enter a valid URL"),
   regexPatterns: z.array(z.string()).min(1, "At least one pattern is required"),
+  includePatterns: z.array(z.string()),
+  excludePatterns: z.array(z.string()),
+  followPatterns: z.array(z.string()),
   maxDepth: z.number().min(1).max(10),
   requestDelay: z.number().min(100).max(5000),
   maxConcurrent: z.number().min(1).max(5),
   removeNavigation: z.boolean(),
   cleanFormatting: z.boolean(),
   includeImages: z.boolean(),
+  frontMatter: z.boolean(),
+  respectRobotsTxt: z.boolean(),
+  discoveryMode: z.enum(["links", "sitemap", "both"]),
+  renderMode: z.enum(["static", "browser", "auto"]),
+  extractionStrategy: z.enum(["selectors", "readability"]),
+  contentSelector: z.string(),
+  titleSelector: z.string(),
+  removeSelectors: z.array(z.string()),
+  keepSelectors: z.array(z.string()),
+  urlNormalization: urlNormalizationSchema,
+  assetCapture: z.enum(["none", "images", "all"]),
+  maxAssetBytes: z.number().min(1),
+  maxJobAssetBytes: z.number().min(1),
+  priority: z.number(),
+  maxAttempts: z.number().min(1).max(10),
+  retryBackoffMs: z.number().min(100).max(60000),
+  retryOn: z.array(z.enum(errorCategories)),
 });
 
 type CrawlJobForm = z.infer<typeof crawlJobSchema>;
 
+// Pattern lists are edited one regex per line; blank lines are dropped on submit
+function cleanPatterns(patterns: string[]): string[] {
+  return patterns.filter(pattern => pattern.trim() !== "");
+}
+
+// Requests per second the rate limiter allows the job's host, or the configured ceiling before the first request
+function effectiveRate(job: CrawlJob): number {
+  return job.effectiveRate ?? 1000 / job.requestDelay;
+}
+
+// True once the limiter has backed off from the configured rate because the site pushed back
+function isSlowedDown(job: CrawlJob): boolean {
+  return job.effectiveRate !== null && job.effectiveRate < 0.99 * 1000 / job.requestDelay;
+}
+
+// The subset of the form that POST /api/preview and /api/test-selectors take
+function toExtractionRequest(data: CrawlJobForm): ExtractionRequest {
+  return {
+    url: data.baseUrl,
+    removeNavigation: data.removeNavigation,
+    cleanFormatting: data.cleanFormatting,
+    includeImages: data.includeImages,
+    extractionStrategy: data.extractionStrategy,
+    contentSelector: data.contentSelector.trim(),
+    titleSelector: data.titleSelector.trim(),
+    removeSelectors: cleanPatterns(data.removeSelectors),
+    keepSelectors: cleanPatterns(data.keepSelectors),
+    urlNormalization: data.urlNormalization,
+    renderMode: data.renderMode,
+  };
+}
+
+const errorCategoryLabels: Record<ErrorCategory, string> = {
+  timeout: "Timeouts",
+  "rate-limit": "Rate limited (429)",
+  "server-error": "Server errors (5xx)",
+  "client-error": "Client errors (4xx)",
+  navigation: "Connection and navigation errors",
+  extraction: "Extraction errors",
+};
+
+// Asset limits are stored in bytes but edited in megabytes
+const BYTES_PER_MB = 1024 * 1024;
+
+const DEFAULT_FORM_VALUES: CrawlJobForm = {
+  baseUrl: "",
+  regexPatterns: [""],
+  includePatterns: [],
+  excludePatterns: [],
+  followPatterns: [],
+  maxDepth: 2,
+  requestDelay: 1000,
+  maxConcurrent: 2,
+  removeNavigation: true,
+  cleanFormatting: true,
+  includeImages: false,
+  frontMatter: false,
+  respectRobotsTxt: true,
+  discoveryMode: "links",
+  renderMode: "browser",
+  extractionStrategy: "selectors",
+  contentSelector: "",
+  titleSelector: "",
+  removeSelectors: [],
+  keepSelectors: [],
+  urlNormalization: {
+    stripFragment: true,
+    stripTrackingParams: true,
+    sortQuery: true,
+    trailingSlash: "strip",
+    lowercasePath: false,
+  },
+  assetCapture: "none",
+  maxAssetBytes: 10 * BYTES_PER_MB,
+  maxJobAssetBytes: 200 * BYTES_PER_MB,
+  priority: 0,
+  maxAttempts: 3,
+  retryBackoffMs: 1000,
+  retryOn: ["timeout", "rate-limit", "server-error", "navigation"],
+};
+
+// Form values as a job or saved configuration stores them
+function toJobSettings(data: CrawlJobForm, regexPatterns: string[]): CrawlJobForm {
+  return {
+    ...data,
+    regexPatterns: cleanPatterns(regexPatterns),
+    includePatterns: cleanPatterns(data.includePatterns),
+    excludePatterns: cleanPatterns(data.excludePatterns),
+    followPatterns: cleanPatterns(data.followPatterns),
+    contentSelector: data.contentSelector.trim(),
+    titleSelector: data.titleSelector.trim(),
+    removeSelectors: cleanPatterns(data.removeSelectors),
+    keepSelectors: cleanPatterns(data.keepSelectors),
+  };
+}
+
+// Saved settings may predate newer form fields, so anything missing keeps its default
+function toFormValues(settings: CrawlConfigSettings): CrawlJobForm {
+  return {
+    ...DEFAULT_FORM_VALUES,
+    ...settings,
+    regexPatterns: settings.regexPatterns.length > 0 ? settings.regexPatterns : [""],
+    contentSelector: settings.contentSelector ?? "",
+    titleSelector: settings.titleSelector ?? "",
+    urlNormalization: settings.urlNormalization ?? DEFAULT_FORM_VALUES.urlNormalization,
+  };
+}
+
+// Whether the form still holds exactly what a loaded configuration saved, so a job started from it can record the config
+function matchesConfig(settings: CrawlJobForm, config: CrawlConfig): boolean {
+  const saved = toJobSettings(toFormValues(config.settings), config.settings.regexPatterns);
+  const keys = Object.keys(saved) as (keyof CrawlJobForm)[];
+  return keys.length === Object.keys(settings).length
+    && keys.every((key) => JSON.stringify(settings[key]) === JSON.stringify(saved[key]));
+}
+
 export default function CrawlerPage() {
   const [advancedOpen, setAdvancedOpen] = useState(false);
   const [activeJobId, setActiveJobId] = useState<number | null>(null);
   const [progressModalOpen, setProgressModalOpen] = useState(false);
   const [regexPatterns, setRegexPatterns] = useState<string[]>([""]);
+  const [exportLayout, setExportLayout] = useState<"flat" | "hierarchy">("flat");
+  const [rewriteLinks, setRewriteLinks] = useState(false);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [dryRunOpen, setDryRunOpen] = useState(false);
+  const [saveConfigOpen, setSaveConfigOpen] = useState(false);
+  const [loadedConfig, setLoadedConfig] = useState<CrawlConfig | null>(null);
   const { toast } = useToast();
 
   const form = useForm<CrawlJobForm>({
     resolver: zodResolver(crawlJobSchema),
-    defaultValues: {
-      baseUrl: "",
-      regexPatterns: [""],
-      maxDepth: 2,
-      requestDelay: 1000,
-      maxConcurrent: 2,
-      removeNavigation: true,
-      cleanFormatting: true,
-      includeImages: false,
-    },
+    defaultValues: DEFAULT_FORM_VALUES,
   });
 
+  const showStartedJob = (job: CrawlJob) => {
+    setActiveJobId(job.id);
+    setProgressModalOpen(true);
+    toast({
+      title: "Crawling Queued",
+      description: "Your web crawling job will start as soon as a worker is free.",
+    });
+  };
+
+  // Live updates for the active job; polling only runs while the socket is down
+  const { connected: eventsConnected, logs } = useCrawlEvents(activeJobId);
+  const pollInterval = activeJobId && !eventsConnected ? 2000 : false;
+
   // Fetch all crawl jobs
   const { data: jobs = [], isLoading: jobsLoading } = useQuery<CrawlJob[]>({
     queryKey: ["/api/crawl-jobs"],
-    refetchInterval: activeJobId ? 2000 : false,
+    refetchInterval: pollInterval,
   });
 
   // Fetch active job details
   const { data: activeJob } = useQuery<CrawlJob>({
     queryKey: ["/api/crawl-jobs", activeJobId],
     enabled: !!activeJobId,
-    refetchInterval: activeJobId ? 2000 : false,
+    refetchInterval: pollInterval,
+  });
+
+  // Workers and waiting jobs; queue events keep this current while the socket is up
+  const { data: queue } = useQuery<QueueStatus>({
+    queryKey: ["/api/queue"],
+    refetchInterval: pollInterval,
   });
 
+  const queuePosition = (jobId: number) =>
+    queue?.pending.find((entry) => entry.jobId === jobId)?.position;
+
   // Fetch results for active job
   const { data: results = [] } = useQuery<CrawlResult[]>({
     queryKey: ["/api/crawl-jobs", activeJobId, "results"],
     enabled: !!activeJobId,
-    refetchInterval: activeJobId ? 2000 : false,
+    refetchInterval: pollInterval,
   });
 
   // Create crawl job mutation
   const createJobMutation = useMutation({
-    mutationFn: async (data: CrawlJobForm) => {
+    mutationFn: async (data: CrawlJobForm & Partial<Pick<CrawlJob, "configId" | "configVersion">>) => {
       const response = await apiRequest("POST", "/api/crawl-jobs", data);
       return response.json();
     },
+    onSuccess: (job: CrawlJob) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/crawl-jobs"] });
+      showStartedJob(job);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to start crawling job. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Re-crawl a finished job, comparing the new results with it
+  const recrawlMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const response = await apiRequest("POST", `/api/crawl-jobs/${jobId}/recrawl`);
+      return response.json();
+    },
     onSuccess: (job: CrawlJob) => {
       queryClient.invalidateQueries({ queryKey: ["/api/crawl-jobs"] });
       setActiveJobId(job.id);
       setProgressModalOpen(true);
       toast({
-        title: "Crawling Started",
-        description: "Your web crawling job has been started successfully.",
+        title: "Re-crawl Started",
+        description: "Only new and changed pages will be stored.",
       });
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to start crawling job. Please try again.",
+        description: "Failed to start re-crawl. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Crawl the failed pages of the active job again
+  const retryFailedMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const response = await apiRequest("POST", `/api/crawl-jobs/${jobId}/retry-failed`);
+      return response.json();
+    },
+    onSuccess: (job: CrawlJob) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/crawl-jobs"] });
+      queryClient.setQueryData(["/api/crawl-jobs", job.id], job);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Pause, resume or cancel the active job
+  const jobControlMutation = useMutation({
+    mutationFn: async ({ jobId, action }: { jobId: number; action: "pause" | "resume" | "cancel" }) => {
+      const response = await apiRequest("POST", `/api/crawl-jobs/${jobId}/${action}`);
+      return response.json();
+    },
+    onSuccess: (job: CrawlJob) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/crawl-jobs"] });
+      queryClient.setQueryData(["/api/crawl-jobs", job.id], job);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update the crawling job. Please try again.",
         variant: "destructive",
       });
     },
@@ -123,11 +346,61 @@ export default function CrawlerPage() {
     },
   });
 
+  // Follow links with the current patterns without crawling anything
+  const dryRunMutation = useMutation({
+    mutationFn: async (data: CrawlJobForm): Promise<DryRunResult> => {
+      const response = await apiRequest("POST", "/api/discovery/dry-run", {
+        baseUrl: data.baseUrl,
+        regexPatterns: cleanPatterns(regexPatterns),
+        includePatterns: cleanPatterns(data.includePatterns),
+        excludePatterns: cleanPatterns(data.excludePatterns),
+        followPatterns: cleanPatterns(data.followPatterns),
+        maxDepth: data.maxDepth,
+        requestDelay: data.requestDelay,
+        maxConcurrent: data.maxConcurrent,
+        respectRobotsTxt: data.respectRobotsTxt,
+        renderMode: data.renderMode,
+        urlNormalization: data.urlNormalization,
+      });
+      return response.json();
+    },
+  });
+
+  const startDryRun = form.handleSubmit((data) => {
+    setDryRunOpen(true);
+    dryRunMutation.mutate(data);
+  });
+
+  // Run the extraction selectors against the base URL
+  const testSelectorsMutation = useMutation({
+    mutationFn: async (data: CrawlJobForm): Promise<SelectorTestResult> => {
+      const response = await apiRequest("POST", "/api/test-selectors", toExtractionRequest(data));
+      return response.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Selector test failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: CrawlJobForm) => {
-    const filteredPatterns = regexPatterns.filter(p => p.trim() !== "");
-    createJobMutation.mutate({
-      ...data,
-      regexPatterns: filteredPatterns,
+    const settings = toJobSettings(data, regexPatterns);
+    createJobMutation.mutate(loadedConfig && matchesConfig(settings, loadedConfig)
+      ? { ...settings, configId: loadedConfig.id, configVersion: loadedConfig.version }
+      : settings);
+  };
+
+  const loadConfig = (config: CrawlConfig) => {
+    const values = toFormValues(config.settings);
+    form.reset(values);
+    setRegexPatterns(values.regexPatterns);
+    setLoadedConfig(config);
+    toast({
+      title: "Configuration Loaded",
+      description: `${config.name} (version ${config.version})`,
     });
   };
 
@@ -151,7 +424,8 @@ export default function CrawlerPage() {
 
   const downloadResults = async (jobId: number) => {
     try {
-      const response = await fetch(`/api/crawl-jobs/${jobId}/download`);
+      const params = new URLSearchParams({ layout: exportLayout, rewriteLinks: String(rewriteLinks) });
+      const response = await fetch(`/api/crawl-jobs/${jobId}/download?${params}`);
       if (!response.ok) throw new Error("Download failed");
       
       const blob = await response.blob();
@@ -172,15 +446,27 @@ export default function CrawlerPage() {
     }
   };
 
+  const failedCount = results.filter((result) => result.status === "error").length;
+
   const getProgressPercentage = () => {
     if (!activeJob || activeJob.totalPages === 0) return 0;
     return Math.round((activeJob.processedPages / activeJob.totalPages) * 100);
   };
 
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: string, position?: number) => {
     switch (status) {
+      case "pending":
+        return (
+          <Badge className="bg-purple-100 text-purple-700">
+            {position ? `Queued #${position}` : "Queued"}
+          </Badge>
+        );
       case "running":
         return <Badge className="bg-blue-100 text-blue-700">Crawling</Badge>;
+      case "paused":
+        return <Badge className="bg-yellow-100 text-yellow-700">Paused</Badge>;
+      case "cancelled":
+        return <Badge className="bg-gray-100 text-gray-600">Cancelled</Badge>;
       case "completed":
         return <Badge className="bg-green-100 text-green-700">Completed</Badge>;
       case "error":
@@ -279,6 +565,28 @@ export default function CrawlerPage() {
                       </SelectContent>
                     </Select>
                   </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="discoveryMode">URL Discovery</Label>
+                    <Select
+                      value={form.watch("discoveryMode")}
+                      onValueChange={(value) =>
+                        form.setValue("discoveryMode", value as CrawlJobForm["discoveryMode"])
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="links">Follow links</SelectItem>
+                        <SelectItem value="sitemap">Sitemap only</SelectItem>
+                        <SelectItem value="both">Sitemap and links</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      Sitemaps are read from /sitemap.xml and robots.txt
+                    </p>
+                  </div>
                 </CardContent>
               </Card>
 
@@ -345,9 +653,65 @@ export default function CrawlerPage() {
                           <Book className="mr-1 h-4 w-4" />
                           Pattern examples
                         </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={dryRunMutation.isPending}
+                          onClick={startDryRun}
+                        >
+                          <Route className="mr-1 h-4 w-4" />
+                          {dryRunMutation.isPending ? "Discovering..." : "Dry run"}
+                        </Button>
                       </div>
                     </div>
                   </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="excludePatterns">Exclude Patterns</Label>
+                    <Textarea
+                      id="excludePatterns"
+                      placeholder={"/changelog/\n[?&]page="}
+                      value={form.watch("excludePatterns").join("\n")}
+                      onChange={(e) => form.setValue("excludePatterns", e.target.value.split("\n"))}
+                      className="font-mono text-sm"
+                      rows={2}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      URLs matching any of these are neither followed nor saved. One pattern per line.
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="includePatterns">Include Patterns</Label>
+                      <Textarea
+                        id="includePatterns"
+                        placeholder="/docs/"
+                        value={form.watch("includePatterns").join("\n")}
+                        onChange={(e) => form.setValue("includePatterns", e.target.value.split("\n"))}
+                        className="font-mono text-sm"
+                        rows={2}
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        If set, only matching URLs are crawled at all
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="followPatterns">Follow Patterns</Label>
+                      <Textarea
+                        id="followPatterns"
+                        placeholder="/docs/[^/]+/?$"
+                        value={form.watch("followPatterns").join("\n")}
+                        onChange={(e) => form.setValue("followPatterns", e.target.value.split("\n"))}
+                        className="font-mono text-sm"
+                        rows={2}
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        If set, only matching pages have their links followed
+                      </p>
+                    </div>
+                  </div>
                 </CardContent>
               </Card>
 
@@ -396,6 +760,104 @@ export default function CrawlerPage() {
                             </SelectContent>
                           </Select>
                         </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="renderMode">Page Rendering</Label>
+                          <Select
+                            value={form.watch("renderMode")}
+                            onValueChange={(value) =>
+                              form.setValue("renderMode", value as CrawlJobForm["renderMode"])
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="browser">Browser (JavaScript sites)</SelectItem>
+                              <SelectItem value="static">Static HTML (fast)</SelectItem>
+                              <SelectItem value="auto">Auto-detect</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="extractionStrategy">Main Content Detection</Label>
+                          <Select
+                            value={form.watch("extractionStrategy")}
+                            onValueChange={(value) =>
+                              form.setValue("extractionStrategy", value as CrawlJobForm["extractionStrategy"])
+                            }
+                          >
+                            <SelectTrigger id="extractionStrategy">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="selectors">Common selectors (article, main, ...)</SelectItem>
+                              <SelectItem value="readability">Readability (score text blocks)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="priority">Queue Priority</Label>
+                          <Select
+                            value={form.watch("priority").toString()}
+                            onValueChange={(value) => form.setValue("priority", parseInt(value))}
+                          >
+                            <SelectTrigger id="priority">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="1">High</SelectItem>
+                              <SelectItem value="0">Normal</SelectItem>
+                              <SelectItem value="-1">Low</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+
+                      <div className="space-y-3">
+                        <Label htmlFor="assetCapture">Asset Capture</Label>
+                        <Select
+                          value={form.watch("assetCapture")}
+                          onValueChange={(value) =>
+                            form.setValue("assetCapture", value as CrawlJobForm["assetCapture"])
+                          }
+                        >
+                          <SelectTrigger id="assetCapture">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Don't download assets</SelectItem>
+                            <SelectItem value="images">Images</SelectItem>
+                            <SelectItem value="all">Images and linked files (PDF, ZIP, ...)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {form.watch("assetCapture") !== "none" && (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="maxAssetMb" className="text-sm">Max file size (MB)</Label>
+                              <Input
+                                id="maxAssetMb"
+                                type="number"
+                                min="1"
+                                value={form.watch("maxAssetBytes") / BYTES_PER_MB}
+                                onChange={(e) =>
+                                  form.setValue("maxAssetBytes", Math.round((e.target.valueAsNumber || 0) * BYTES_PER_MB))
+                                }
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="maxJobAssetMb" className="text-sm">Max total per job (MB)</Label>
+                              <Input
+                                id="maxJobAssetMb"
+                                type="number"
+                                min="1"
+                                value={form.watch("maxJobAssetBytes") / BYTES_PER_MB}
+                                onChange={(e) =>
+                                  form.setValue("maxJobAssetBytes", Math.round((e.target.valueAsNumber || 0) * BYTES_PER_MB))
+                                }
+                              />
+                            </div>
+                          </div>
+                        )}
                       </div>
 
                       <div className="space-y-3">
@@ -437,6 +899,203 @@ export default function CrawlerPage() {
                               Include images as references
                             </Label>
                           </div>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id="frontMatter"
+                              checked={form.watch("frontMatter")}
+                              onCheckedChange={(checked) =>
+                                form.setValue("frontMatter", !!checked)
+                              }
+                            />
+                            <Label htmlFor="frontMatter" className="text-sm">
+                              Add YAML front matter with page metadata
+                            </Label>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id="respectRobotsTxt"
+                              checked={form.watch("respectRobotsTxt")}
+                              onCheckedChange={(checked) =>
+                                form.setValue("respectRobotsTxt", !!checked)
+                              }
+                            />
+                            <Label htmlFor="respectRobotsTxt" className="text-sm">
+                              Respect robots.txt and crawl-delay
+                            </Label>
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="space-y-3">
+                        <Label>Retries</Label>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="maxAttempts" className="text-sm">Attempts per page</Label>
+                            <Input
+                              id="maxAttempts"
+                              type="number"
+                              min="1"
+                              max="10"
+                              {...form.register("maxAttempts", { valueAsNumber: true })}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="retryBackoffMs" className="text-sm">First backoff (ms, doubles each retry)</Label>
+                            <Input
+                              id="retryBackoffMs"
+                              type="number"
+                              min="100"
+                              max="60000"
+                              {...form.register("retryBackoffMs", { valueAsNumber: true })}
+                            />
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                          {errorCategories.map((category) => (
+                            <div key={category} className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`retryOn-${category}`}
+                                checked={form.watch("retryOn").includes(category)}
+                                onCheckedChange={(checked) => {
+                                  const retryOn = form.getValues("retryOn").filter((c) => c !== category);
+                                  form.setValue("retryOn", checked ? [...retryOn, category] : retryOn);
+                                }}
+                              />
+                              <Label htmlFor={`retryOn-${category}`} className="text-sm">
+                                Retry {errorCategoryLabels[category].toLowerCase()}
+                              </Label>
+                            </div>
+                          ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          A Retry-After header from the server stretches the wait when it asks for longer.
+                        </p>
+                      </div>
+
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <Label>Custom Selectors</Label>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={testSelectorsMutation.isPending}
+                            onClick={form.handleSubmit((data) => testSelectorsMutation.mutate(data))}
+                          >
+                            <FlaskConical className="mr-2 h-4 w-4" />
+                            {testSelectorsMutation.isPending ? "Testing..." : "Test on URL"}
+                          </Button>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="contentSelector" className="text-sm">Content root</Label>
+                            <Input
+                              id="contentSelector"
+                              placeholder="#main-content"
+                              className="font-mono text-sm"
+                              {...form.register("contentSelector")}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="titleSelector" className="text-sm">Title</Label>
+                            <Input
+                              id="titleSelector"
+                              placeholder="h1.page-title"
+                              className="font-mono text-sm"
+                              {...form.register("titleSelector")}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="removeSelectors" className="text-sm">Also remove</Label>
+                            <Textarea
+                              id="removeSelectors"
+                              placeholder=".cookie-banner"
+                              value={form.watch("removeSelectors").join("\n")}
+                              onChange={(e) => form.setValue("removeSelectors", e.target.value.split("\n"))}
+                              className="font-mono text-sm"
+                              rows={2}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="keepSelectors" className="text-sm">Always keep</Label>
+                            <Textarea
+                              id="keepSelectors"
+                              placeholder="header.article-header"
+                              value={form.watch("keepSelectors").join("\n")}
+                              onChange={(e) => form.setValue("keepSelectors", e.target.value.split("\n"))}
+                              className="font-mono text-sm"
+                              rows={2}
+                            />
+                          </div>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          One selector per line. The content root replaces automatic detection when it matches.
+                        </p>
+                        {testSelectorsMutation.data && (
+                          <div className="space-y-2 rounded-md border border-border p-3">
+                            <div className="flex flex-wrap gap-2">
+                              {testSelectorsMutation.data.matches.map((match) => (
+                                <Badge
+                                  key={`${match.kind}:${match.selector}`}
+                                  variant={match.error || match.count === 0 ? "destructive" : "secondary"}
+                                  title={match.error}
+                                >
+                                  {match.kind}: <span className="ml-1 font-mono">{match.selector}</span>
+                                  <span className="ml-1">({match.error ? "invalid" : match.count})</span>
+                                </Badge>
+                              ))}
+                            </div>
+                            <p className="text-sm font-medium">{testSelectorsMutation.data.title}</p>
+                            <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 text-xs">
+                              {testSelectorsMutation.data.markdownContent || "(no content)"}
+                            </pre>
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="space-y-3">
+                        <Label>URL Normalization</Label>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                          {([
+                            ["stripFragment", "Strip #fragments"],
+                            ["stripTrackingParams", "Strip tracking parameters (utm_*, gclid, ...)"],
+                            ["sortQuery", "Sort query parameters"],
+                            ["lowercasePath", "Ignore case in paths"],
+                          ] as const).map(([option, label]) => (
+                            <div key={option} className="flex items-center space-x-2">
+                              <Checkbox
+                                id={option}
+                                checked={form.watch(`urlNormalization.${option}`)}
+                                onCheckedChange={(checked) =>
+                                  form.setValue(`urlNormalization.${option}`, !!checked)
+                                }
+                              />
+                              <Label htmlFor={option} className="text-sm">
+                                {label}
+                              </Label>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="trailingSlash" className="text-sm">Trailing slashes</Label>
+                          <Select
+                            value={form.watch("urlNormalization.trailingSlash")}
+                            onValueChange={(value) =>
+                              form.setValue(
+                                "urlNormalization.trailingSlash",
+                                value as CrawlJobForm["urlNormalization"]["trailingSlash"]
+                              )
+                            }
+                          >
+                            <SelectTrigger id="trailingSlash">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="strip">Remove (/docs/ → /docs)</SelectItem>
+                              <SelectItem value="add">Add (/docs → /docs/)</SelectItem>
+                              <SelectItem value="keep">Keep as linked</SelectItem>
+                            </SelectContent>
+                          </Select>
                         </div>
                       </div>
                     </CardContent>
@@ -454,7 +1113,11 @@ export default function CrawlerPage() {
                   <Play className="mr-2 h-4 w-4" />
                   {createJobMutation.isPending ? "Starting..." : "Start Crawling"}
                 </Button>
-                <Button type="button" variant="outline">
+                <Button type="button" variant="outline" onClick={() => setPreviewOpen(!previewOpen)}>
+                  <Eye className="mr-2 h-4 w-4" />
+                  {previewOpen ? "Hide Preview" : "Preview Extraction"}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setSaveConfigOpen(true)}>
                   <Save className="mr-2 h-4 w-4" />
                   Save Configuration
                 </Button>
@@ -472,9 +1135,18 @@ export default function CrawlerPage() {
               <CardContent className="space-y-4">
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Status</span>
-                  {activeJob ? getStatusBadge(activeJob.status) : getStatusBadge("ready")}
+                  {activeJob ? getStatusBadge(activeJob.status, queuePosition(activeJob.id)) : getStatusBadge("ready")}
                 </div>
 
+                {queue && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Queue</span>
+                    <span className="text-sm text-foreground">
+                      {queue.running.length} / {queue.workers} workers busy • {queue.pending.length} waiting
+                    </span>
+                  </div>
+                )}
+
                 <div>
                   <div className="flex items-center justify-between mb-2">
                     <span className="text-sm text-muted-foreground">Progress</span>
@@ -502,6 +1174,14 @@ export default function CrawlerPage() {
               </CardContent>
             </Card>
 
+            <SavedConfigsCard
+              loadedConfigId={loadedConfig?.id ?? null}
+              onLoad={loadConfig}
+              onJobStarted={showStartedJob}
+            />
+
+            <SchedulesCard />
+
             {/* Recent Activity Card */}
             <Card>
               <CardHeader>
@@ -563,6 +1243,33 @@ export default function CrawlerPage() {
                   </div>
                 ) : (
                   <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="exportLayout" className="text-sm text-muted-foreground">
+                        ZIP layout
+                      </Label>
+                      <Select
+                        value={exportLayout}
+                        onValueChange={(value) => setExportLayout(value as "flat" | "hierarchy")}
+                      >
+                        <SelectTrigger id="exportLayout" className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="flat">Flat (numbered files)</SelectItem>
+                          <SelectItem value="hierarchy">Site structure (host/path.md)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="rewriteLinks"
+                        checked={rewriteLinks}
+                        onCheckedChange={(checked) => setRewriteLinks(!!checked)}
+                      />
+                      <Label htmlFor="rewriteLinks" className="text-sm">
+                        Link crawled pages to each other for offline browsing
+                      </Label>
+                    </div>
                     {jobs
                       .filter(job => job.status === "completed")
                       .slice(0, 3)
@@ -574,13 +1281,31 @@ export default function CrawlerPage() {
                               {job.processedPages} pages • {new Date(job.createdAt).toLocaleDateString()}
                             </div>
                           </div>
-                          <Button
-                            size="sm"
-                            onClick={() => downloadResults(job.id)}
-                          >
-                            <Download className="h-4 w-4 mr-1" />
-                            Download
-                          </Button>
+                          <div className="flex space-x-2">
+                            {job.previousJobId && (
+                              <Link href={`/diff/${job.previousJobId}/${job.id}`}>
+                                <Button size="sm" variant="ghost" title="Compare with previous crawl">
+                                  <GitCompare className="h-4 w-4" />
+                                </Button>
+                              </Link>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={recrawlMutation.isPending}
+                              onClick={() => recrawlMutation.mutate(job.id)}
+                            >
+                              <RefreshCw className="h-4 w-4 mr-1" />
+                              Re-crawl
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() => downloadResults(job.id)}
+                            >
+                              <Download className="h-4 w-4 mr-1" />
+                              Download
+                            </Button>
+                          </div>
                         </div>
                       ))}
                   </div>
@@ -598,7 +1323,16 @@ export default function CrawlerPage() {
                   <span className="text-sm text-muted-foreground">Estimated time</span>
                   <span className="text-sm text-foreground">
                     {activeJob && activeJob.status === "running" 
-                      ? `${Math.ceil((activeJob.totalPages - activeJob.processedPages) * activeJob.requestDelay / 1000 / 60)} min`
+                      ? `${Math.ceil((activeJob.totalPages - activeJob.processedPages) / effectiveRate(activeJob) / 60)} min`
+                      : "--"
+                    }
+                  </span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">Request rate</span>
+                  <span className={`text-sm ${activeJob && isSlowedDown(activeJob) ? "text-yellow-600" : "text-foreground"}`}>
+                    {activeJob && activeJob.status === "running" && activeJob.effectiveRate !== null
+                      ? `${Math.round(activeJob.effectiveRate * 100) / 100} req/s`
                       : "--"
                     }
                   </span>
@@ -625,8 +1359,33 @@ export default function CrawlerPage() {
             </Card>
           </div>
         </div>
+
+        {previewOpen && (
+          <div className="mt-8">
+            <ExtractionPreviewPanel
+              request={toExtractionRequest(form.watch())}
+              onClose={() => setPreviewOpen(false)}
+            />
+          </div>
+        )}
       </main>
 
+      <SaveConfigDialog
+        open={saveConfigOpen}
+        onOpenChange={setSaveConfigOpen}
+        settings={toJobSettings(form.watch(), regexPatterns)}
+        loadedConfig={loadedConfig}
+        onSaved={setLoadedConfig}
+      />
+
+      <DryRunDialog
+        open={dryRunOpen}
+        onOpenChange={setDryRunOpen}
+        result={dryRunMutation.data}
+        isPending={dryRunMutation.isPending}
+        error={dryRunMutation.error}
+      />
+
       {/* Progress Modal */}
       <Dialog open={progressModalOpen} onOpenChange={setProgressModalOpen}>
         <DialogContent className="max-w-2xl max-h-[80vh] flex flex-col">
@@ -644,8 +1403,12 @@ export default function CrawlerPage() {
                     <span className="text-sm">{activeJob.processedPages} / {activeJob.totalPages} pages</span>
                   </div>
                   <Progress value={getProgressPercentage()} className="h-3" />
-                  <div className="mt-2 text-xs text-muted-foreground">
-                    Status: {activeJob.status}
+                  <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      Status: {activeJob.status}
+                      {queuePosition(activeJob.id) && ` (#${queuePosition(activeJob.id)} in queue)`}
+                    </span>
+                    <span>{eventsConnected ? "Live" : "Polling for updates"}</span>
                   </div>
                 </div>
 
@@ -663,16 +1426,50 @@ export default function CrawlerPage() {
                         <span className="flex-1 truncate">
                           {result.title || new URL(result.url).pathname}
                         </span>
+                        {result.changeStatus && (
+                          <Badge variant="outline" className="capitalize">
+                            {result.changeStatus}
+                          </Badge>
+                        )}
+                        {result.errorCategory && (
+                          <Badge variant="outline" title={result.errorMessage ?? undefined}>
+                            {result.errorCategory}
+                            {result.attempts && result.attempts > 1 ? ` after ${result.attempts} attempts` : ""}
+                          </Badge>
+                        )}
                         <span className="text-muted-foreground">
                           {result.status === "success" 
                             ? `${Math.round((result.fileSize || 0) / 1024)} KB`
-                            : "Error"
+                            : result.status === "skipped" ? "Skipped" : "Error"
                           }
                         </span>
                       </div>
                     ))}
                   </div>
                 </div>
+
+                {/* Crawler Log */}
+                {logs.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-3">Log</h4>
+                    <div className="max-h-48 overflow-y-auto rounded-md bg-muted p-3 font-mono text-xs space-y-1">
+                      {logs.map((line, index) => (
+                        <div
+                          key={`${line.timestamp}-${index}`}
+                          className={
+                            line.level === "error"
+                              ? "text-red-600"
+                              : line.level === "warn"
+                                ? "text-yellow-700"
+                                : "text-muted-foreground"
+                          }
+                        >
+                          {new Date(line.timestamp).toLocaleTimeString()} {line.message}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -680,11 +1477,59 @@ export default function CrawlerPage() {
           <div className="flex items-center justify-between pt-4 border-t">
             <div className="text-sm text-muted-foreground">
               {activeJob && activeJob.status === "running" 
-                ? `Processing at ${Math.round(1000 / activeJob.requestDelay * activeJob.maxConcurrent * 10) / 10} pages/second`
-                : "Processing complete"
+                ? `Processing at ${Math.round(effectiveRate(activeJob) * 10) / 10} pages/second${isSlowedDown(activeJob) ? " (slowed down by the site)" : ""}`
+                : activeJob?.status === "pending"
+                  ? queuePosition(activeJob.id)
+                    ? `Queued #${queuePosition(activeJob.id)}, waiting for a worker`
+                    : "Waiting for a worker"
+                  : activeJob?.status === "paused"
+                    ? "Crawling paused"
+                    : activeJob?.status === "cancelled"
+                      ? "Crawling cancelled"
+                      : "Processing complete"
               }
             </div>
             <div className="flex space-x-3">
+              {activeJob?.status === "running" && (
+                <Button
+                  variant="outline"
+                  disabled={jobControlMutation.isPending}
+                  onClick={() => jobControlMutation.mutate({ jobId: activeJob.id, action: "pause" })}
+                >
+                  <Pause className="mr-2 h-4 w-4" />
+                  Pause
+                </Button>
+              )}
+              {activeJob?.status === "paused" && (
+                <Button
+                  variant="outline"
+                  disabled={jobControlMutation.isPending}
+                  onClick={() => jobControlMutation.mutate({ jobId: activeJob.id, action: "resume" })}
+                >
+                  <Play className="mr-2 h-4 w-4" />
+                  Resume
+                </Button>
+              )}
+              {(activeJob?.status === "pending" || activeJob?.status === "running" || activeJob?.status === "paused") && (
+                <Button
+                  variant="destructive"
+                  disabled={jobControlMutation.isPending}
+                  onClick={() => jobControlMutation.mutate({ jobId: activeJob.id, action: "cancel" })}
+                >
+                  <Square className="mr-2 h-4 w-4" />
+                  Cancel
+                </Button>
+              )}
+              {activeJob && ["completed", "cancelled", "error"].includes(activeJob.status) && failedCount > 0 && (
+                <Button
+                  variant="outline"
+                  disabled={retryFailedMutation.isPending}
+                  onClick={() => retryFailedMutation.mutate(activeJob.id)}
+                >
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Retry {failedCount} Failed
+                </Button>
+              )}
               {activeJob?.status === "completed" && (
                 <Button onClick={() => downloadResults(activeJob.id)}>
                   <Download className="mr-2 h-4 w-4" />
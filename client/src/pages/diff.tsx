@@ -0,0 +1,202 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, ExternalLink, FilePlus, FileMinus, FileDiff } from "lucide-react";
+import type { CrawlDiff, CrawlDiffPage } from "@shared/schema";
+
+interface DiffCell {
+  lineNumber: number;
+  text: string;
+  changed: boolean;
+}
+
+type DiffRow =
+  | { type: "hunk"; header: string }
+  | { type: "line"; left: DiffCell | null; right: DiffCell | null };
+
+// Turns a unified diff into rows for a two-column view, pairing removed
+// lines with the added lines that replace them
+function toSideBySide(unifiedDiff: string): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: DiffCell[] = [];
+  let added: DiffCell[] = [];
+  let leftLine = 0;
+  let rightLine = 0;
+  let inHunk = false;
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ type: "line", left: removed[i] ?? null, right: added[i] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of unifiedDiff.split("\n")) {
+    const hunk = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      flush();
+      leftLine = parseInt(hunk[1]);
+      rightLine = parseInt(hunk[2]);
+      inHunk = true;
+      rows.push({ type: "hunk", header: line });
+      continue;
+    }
+    if (!inHunk || line.startsWith("\\")) continue;
+
+    if (line.startsWith("-")) {
+      removed.push({ lineNumber: leftLine++, text: line.slice(1), changed: true });
+    } else if (line.startsWith("+")) {
+      added.push({ lineNumber: rightLine++, text: line.slice(1), changed: true });
+    } else if (line.startsWith(" ")) {
+      flush();
+      rows.push({
+        type: "line",
+        left: { lineNumber: leftLine++, text: line.slice(1), changed: false },
+        right: { lineNumber: rightLine++, text: line.slice(1), changed: false },
+      });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+function DiffCellView({ cell, side }: { cell: DiffCell | null; side: "left" | "right" }) {
+  const background = !cell
+    ? "bg-muted/50"
+    : cell.changed
+      ? side === "left" ? "bg-red-50" : "bg-green-50"
+      : "";
+
+  return (
+    <>
+      <td className={`w-10 select-none px-2 text-right text-muted-foreground ${background}`}>
+        {cell?.lineNumber}
+      </td>
+      <td className={`whitespace-pre-wrap break-all px-2 ${background}`}>{cell?.text}</td>
+    </>
+  );
+}
+
+function PageList({ title, pages, icon }: { title: string; pages: CrawlDiffPage[]; icon: React.ReactNode }) {
+  if (pages.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          {icon}
+          {title} ({pages.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {pages.map((page) => (
+          <div key={page.canonicalUrl} className="flex items-center justify-between text-sm">
+            <span className="truncate">{page.title || new URL(page.url).pathname}</span>
+            <a href={page.url} target="_blank" rel="noreferrer" className="text-muted-foreground hover:text-foreground">
+              <ExternalLink className="h-4 w-4" />
+            </a>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DiffPage() {
+  const { id, otherId } = useParams<{ id: string; otherId: string }>();
+
+  const { data: diff, isLoading, error } = useQuery<CrawlDiff>({
+    queryKey: ["/api/crawl-jobs", id, "diff", otherId],
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-surface shadow-sm border-b border-border sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-3 py-4">
+            <Link href="/">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-xl font-medium text-foreground">Crawl Comparison</h1>
+              <p className="text-sm text-muted-foreground">
+                Changes from job {id} to job {otherId}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {isLoading && <p className="text-sm text-muted-foreground">Comparing crawls...</p>}
+        {error && <p className="text-sm text-destructive">Failed to load comparison.</p>}
+
+        {diff && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-green-100 text-green-700">{diff.added.length} added</Badge>
+              <Badge className="bg-red-100 text-red-700">{diff.removed.length} removed</Badge>
+              <Badge className="bg-blue-100 text-blue-700">{diff.changed.length} changed</Badge>
+              <Badge className="bg-gray-100 text-gray-600">{diff.unchangedCount} unchanged</Badge>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <PageList title="Added pages" pages={diff.added} icon={<FilePlus className="h-4 w-4 text-green-600" />} />
+              <PageList title="Removed pages" pages={diff.removed} icon={<FileMinus className="h-4 w-4 text-red-600" />} />
+            </div>
+
+            {diff.changed.map((page) => (
+              <Card key={page.canonicalUrl}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <FileDiff className="h-4 w-4 text-blue-600" />
+                      {page.title || new URL(page.url).pathname}
+                    </CardTitle>
+                    <a href={page.url} target="_blank" rel="noreferrer" className="text-sm text-muted-foreground hover:text-foreground">
+                      {page.url}
+                    </a>
+                  </div>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <table className="w-full table-fixed border-collapse font-mono text-xs">
+                    <colgroup>
+                      <col className="w-10" />
+                      <col />
+                      <col className="w-10" />
+                      <col />
+                    </colgroup>
+                    <tbody>
+                      {toSideBySide(page.diff).map((row, index) =>
+                        row.type === "hunk" ? (
+                          <tr key={index} className="bg-muted text-muted-foreground">
+                            <td colSpan={4} className="px-2 py-1">{row.header}</td>
+                          </tr>
+                        ) : (
+                          <tr key={index} className="align-top">
+                            <DiffCellView cell={row.left} side="left" />
+                            <DiffCellView cell={row.right} side="right" />
+                          </tr>
+                        )
+                      )}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            ))}
+
+            {diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0 && (
+              <p className="text-sm text-muted-foreground">No differences between these crawls.</p>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { readFileSync, readdirSync, writeFileSync, existsSync } from "fs";
+import { join } from "path";
+import type { ExtractionOptions } from "@shared/schema";
+import { crawlerService } from "./services/crawler";
+
+// Each <name>.html here is extracted with the readability strategy and compared
+// with <name>.md. Run with --update to rewrite the .md files from the current output.
+const fixturesDir = join(process.cwd(), 'server', 'fixtures', 'extraction');
+
+const options: ExtractionOptions = {
+  removeNavigation: true,
+  cleanFormatting: true,
+  includeImages: false,
+  extractionStrategy: 'readability',
+  contentSelector: null,
+  titleSelector: null,
+  removeSelectors: [],
+  keepSelectors: [],
+  urlNormalization: null,
+  renderMode: 'static',
+};
+
+function checkExtractionFixtures(update: boolean): boolean {
+  const names = readdirSync(fixturesDir)
+    .filter(file => file.endsWith('.html'))
+    .map(file => file.slice(0, -'.html'.length))
+    .sort();
+
+  let passed = true;
+  for (const name of names) {
+    const html = readFileSync(join(fixturesDir, `${name}.html`), 'utf8');
+    const expectedFile = join(fixturesDir, `${name}.md`);
+    const actual = crawlerService.extractHtml(html, `https://example.com/${name}`, options).markdownContent.trim() + '\n';
+
+    if (update) {
+      writeFileSync(expectedFile, actual);
+      console.log(`updated ${name}`);
+      continue;
+    }
+
+    const expected = existsSync(expectedFile) ? readFileSync(expectedFile, 'utf8') : null;
+    if (expected === actual) {
+      console.log(`ok      ${name}`);
+      continue;
+    }
+
+    passed = false;
+    console.log(`FAILED  ${name}`);
+    if (expected === null) {
+      console.log(`  missing ${name}.md; run with --update to create it`);
+      continue;
+    }
+    // The first differing line is usually enough to see what moved
+    const expectedLines = expected.split('\n');
+    const actualLines = actual.split('\n');
+    const line = expectedLines.findIndex((text, index) => text !== actualLines[index]);
+    const at = line === -1 ? expectedLines.length : line;
+    console.log(`  line ${at + 1}`);
+    console.log(`  expected: ${expectedLines[at] ?? '(end of file)'}`);
+    console.log(`  actual:   ${actualLines[at] ?? '(end of file)'}`);
+  }
+
+  console.log(`${names.length} fixtures${update ? ' updated' : passed ? ' passed' : ', some failed'}`);
+  return passed;
+}
+
+process.exit(checkExtractionFixtures(process.argv.includes('--update')) ? 0 : 1);
@@ -0,0 +1,48 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import type { UrlNormalizationOptions } from "@shared/schema";
+import { UrlFilter, startUrl } from "./services/url-filter";
+import { normalizeUrl } from "./services/url-normalizer";
+
+// Each case in url-scope.json gives a base URL, the page discovery should start
+// from, and links (as found on a page) that must or must not be collected.
+interface ScopeCase {
+  name: string;
+  baseUrl: string;
+  urlNormalization: UrlNormalizationOptions | null;
+  startUrl: string;
+  collected: string[];
+  skipped: string[];
+}
+
+const cases: ScopeCase[] = JSON.parse(readFileSync(join(process.cwd(), 'server', 'fixtures', 'url-scope.json'), 'utf8'));
+
+function checkUrlScope(): boolean {
+  let passed = true;
+  for (const scopeCase of cases) {
+    const job = { ...scopeCase, regexPatterns: ['.'], includePatterns: [], excludePatterns: [], followPatterns: [] };
+    const filter = new UrlFilter(job);
+    const failures: string[] = [];
+
+    const start = startUrl(job);
+    if (start !== scopeCase.startUrl) {
+      failures.push(`starts from ${start}, expected ${scopeCase.startUrl}`);
+    }
+    // Discovery only ever sees links after normalization
+    scopeCase.collected
+      .filter(link => !filter.shouldCollect(normalizeUrl(link, job.urlNormalization)))
+      .forEach(link => failures.push(`does not collect ${link}`));
+    scopeCase.skipped
+      .filter(link => filter.shouldCollect(normalizeUrl(link, job.urlNormalization)))
+      .forEach(link => failures.push(`collects ${link}`));
+
+    console.log(`${failures.length === 0 ? 'ok     ' : 'FAILED '} ${scopeCase.name}`);
+    failures.forEach(failure => console.log(`  ${failure}`));
+    passed &&= failures.length === 0;
+  }
+
+  console.log(`${cases.length} cases${passed ? ' passed' : ', some failed'}`);
+  return passed;
+}
+
+process.exit(checkUrlScope() ? 0 : 1);
@@ -0,0 +1,17 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = ReturnType<typeof createDb>;
+
+export function createDb() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set to use the PostgreSQL storage backend");
+  }
+
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  return drizzle({ client: pool, schema });
+}
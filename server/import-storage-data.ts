@@ -0,0 +1,140 @@
+import { readFileSync, existsSync, renameSync } from "fs";
+import { join } from "path";
+import { eq } from "drizzle-orm";
+import { users, crawlJobs, crawlResults, crawlAssets, crawlConfigs, crawlSchedules, crawlScheduleRuns } from "@shared/schema";
+import { createDb } from "./db";
+
+// One-time move of MemStorage's storage-data.json into PostgreSQL.
+// Rows get fresh ids, so results are re-linked to their imported job.
+async function importStorageData() {
+  const dataFile = join(process.cwd(), 'storage-data.json');
+  if (!existsSync(dataFile)) {
+    console.log(`Nothing to import: ${dataFile} does not exist`);
+    return;
+  }
+
+  const data = JSON.parse(readFileSync(dataFile, 'utf8'));
+  const db = createDb();
+
+  await db.transaction(async (tx) => {
+    for (const [, user] of data.users || []) {
+      const { id, ...values } = user;
+      await tx.insert(users).values(values).onConflictDoNothing();
+    }
+
+    const configIds = new Map<number, number>();
+    for (const [oldId, config] of data.crawlConfigs || []) {
+      const { id, ...values } = config;
+      const [inserted] = await tx.insert(crawlConfigs).values({
+        ...values,
+        createdAt: new Date(config.createdAt),
+        updatedAt: new Date(config.updatedAt),
+      }).returning({ id: crawlConfigs.id });
+      configIds.set(oldId, inserted.id);
+    }
+
+    const jobIds = new Map<number, number>();
+    for (const [oldId, job] of data.crawlJobs || []) {
+      const { id, ...values } = job;
+      const [inserted] = await tx.insert(crawlJobs).values({
+        ...values,
+        configId: job.configId != null ? configIds.get(job.configId) ?? null : null,
+        // Linked once every job has its new id
+        previousJobId: null,
+        createdAt: new Date(job.createdAt),
+      }).returning({ id: crawlJobs.id });
+      jobIds.set(oldId, inserted.id);
+    }
+
+    for (const [oldId, job] of data.crawlJobs || []) {
+      const previousJobId = job.previousJobId != null ? jobIds.get(job.previousJobId) : undefined;
+      if (previousJobId === undefined) continue;
+      await tx.update(crawlJobs).set({ previousJobId }).where(eq(crawlJobs.id, jobIds.get(oldId)!));
+    }
+
+    const scheduleIds = new Map<number, number>();
+    for (const [oldId, schedule] of data.crawlSchedules || []) {
+      const configId = configIds.get(schedule.configId);
+      if (configId === undefined) {
+        console.warn(`Skipping schedule ${schedule.id}: configuration ${schedule.configId} was not found`);
+        continue;
+      }
+
+      const { id, ...values } = schedule;
+      const [inserted] = await tx.insert(crawlSchedules).values({
+        ...values,
+        configId,
+        lastJobId: schedule.lastJobId != null ? jobIds.get(schedule.lastJobId) ?? null : null,
+        nextRunAt: schedule.nextRunAt ? new Date(schedule.nextRunAt) : null,
+        lastRunAt: schedule.lastRunAt ? new Date(schedule.lastRunAt) : null,
+        createdAt: new Date(schedule.createdAt),
+      }).returning({ id: crawlSchedules.id });
+      scheduleIds.set(oldId, inserted.id);
+    }
+
+    for (const [, run] of data.crawlScheduleRuns || []) {
+      const scheduleId = scheduleIds.get(run.scheduleId);
+      if (scheduleId === undefined) continue;
+
+      const { id, ...values } = run;
+      await tx.insert(crawlScheduleRuns).values({
+        ...values,
+        scheduleId,
+        jobId: run.jobId != null ? jobIds.get(run.jobId) ?? null : null,
+        scheduledFor: new Date(run.scheduledFor),
+        createdAt: new Date(run.createdAt),
+      });
+    }
+
+    let resultCount = 0;
+    for (const [, result] of data.crawlResults || []) {
+      const jobId = jobIds.get(result.jobId);
+      if (jobId === undefined) {
+        console.warn(`Skipping result ${result.id}: job ${result.jobId} was not found`);
+        continue;
+      }
+
+      const { id, ...values } = result;
+      await tx.insert(crawlResults).values({
+        ...values,
+        jobId,
+        lastModified: result.lastModified ? new Date(result.lastModified) : null,
+        publishedAt: result.publishedAt ? new Date(result.publishedAt) : null,
+        modifiedAt: result.modifiedAt ? new Date(result.modifiedAt) : null,
+        createdAt: new Date(result.createdAt),
+      });
+      resultCount++;
+    }
+
+    // Only the records move; the files stay where they are in crawl-assets/
+    let assetCount = 0;
+    for (const [, asset] of data.crawlAssets || []) {
+      const jobId = jobIds.get(asset.jobId);
+      if (jobId === undefined) {
+        console.warn(`Skipping asset ${asset.id}: job ${asset.jobId} was not found`);
+        continue;
+      }
+
+      const { id, ...values } = asset;
+      await tx.insert(crawlAssets).values({
+        ...values,
+        jobId,
+        createdAt: new Date(asset.createdAt),
+      });
+      assetCount++;
+    }
+
+    console.log(`Imported ${jobIds.size} jobs, ${resultCount} results and ${assetCount} assets`);
+  });
+
+  // Move the file aside so MemStorage and a second import don't pick it up again
+  renameSync(dataFile, `${dataFile}.imported`);
+  console.log(`Renamed ${dataFile} to ${dataFile}.imported`);
+}
+
+importStorageData()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Import failed:', error);
+    process.exit(1);
+  });
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { jobQueue } from "./services/job-queue";
+import { schedulerService } from "./services/scheduler";
 import path from "path";
 import { fileURLToPath } from 'url';
 
@@ -66,7 +68,14 @@ app.use((req, res, next) => {
   // this serves both the API and the client.
   // It is the only port that is not firewalled.
   const port = process.env.PORT || 5000;
-  app.listen(port, () => {
+  server.listen(port, () => {
     log(`serving on port ${port}`);
   });
+
+  // Pick up crawls that were still in progress when the server last stopped
+  jobQueue.resumeInterruptedJobs().catch(error => {
+    console.error('Failed to resume interrupted crawl jobs:', error);
+  });
+
+  schedulerService.start();
 })();
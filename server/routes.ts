@@ -1,8 +1,16 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { crawlerService } from "./services/crawler";
-import { insertCrawlJobSchema } from "@shared/schema";
+import { crawlEvents } from "./services/events";
+import { jobQueue } from "./services/job-queue";
+import { diffService } from "./services/diff";
+import { schedulerService } from "./services/scheduler";
+import { InvalidScheduleError } from "./services/errors";
+import { checkSelectors } from "./services/selectors";
+import { exportService, type ExportLayout } from "./services/exporter";
+import { setupWebSocket } from "./websocket";
+import { insertCrawlJobSchema, insertCrawlConfigSchema, insertCrawlScheduleSchema, extractionRequestSchema, discoveryOptionsSchema, type CrawlJob } from "@shared/schema";
 import { z } from "zod";
 import archiver from "archiver";
 
@@ -10,15 +18,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create crawl job
   app.post("/api/crawl-jobs", async (req, res) => {
     try {
-      const validatedData = insertCrawlJobSchema.parse(req.body);
+      const validatedData = insertCrawlJobSchema.superRefine(checkSelectors).parse(req.body);
       const job = await storage.createCrawlJob(validatedData);
-      
-      // Start crawling in background
-      crawlerService.crawlWebsite(job.id).catch(error => {
-        console.error(`Crawling job ${job.id} failed:`, error);
-        console.error('Error details:', error.stack);
-      });
-      
+      crawlEvents.publish({ type: "job", job });
+      jobQueue.enqueue(job);
       res.json(job);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -29,6 +32,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Re-crawl an existing job: same configuration, with results compared against it
+  app.post("/api/crawl-jobs/:id/recrawl", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const previousJob = await storage.getCrawlJob(id);
+      if (!previousJob) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const config = insertCrawlJobSchema.parse(previousJob);
+      const job = await storage.createCrawlJob({ ...config, previousJobId: previousJob.id });
+      crawlEvents.publish({ type: "job", job });
+      jobQueue.enqueue(job);
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start re-crawl" });
+    }
+  });
+
+  // Crawl only the pages of a finished job that ended in an error
+  app.post("/api/crawl-jobs/:id/retry-failed", async (req, res) => {
+    try {
+      const job = await storage.getCrawlJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (!["completed", "cancelled", "error"].includes(job.status)) {
+        return res.status(409).json({ message: `Cannot retry pages while the job is ${job.status}` });
+      }
+
+      const updatedJob = await crawlerService.prepareRetry(job);
+      if (!updatedJob) {
+        return res.status(409).json({ message: "Job has no failed pages" });
+      }
+      crawlEvents.publish({ type: "job", job: updatedJob });
+      jobQueue.enqueue(updatedJob);
+      res.json(updatedJob);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retry failed pages" });
+    }
+  });
+
   // Get all crawl jobs
   app.get("/api/crawl-jobs", async (req, res) => {
     try {
@@ -64,19 +109,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Compare two crawls of the same site; :id is the base, :otherId the newer crawl
+  app.get("/api/crawl-jobs/:id/diff/:otherId", async (req, res) => {
+    try {
+      const baseJobId = parseInt(req.params.id);
+      const otherJobId = parseInt(req.params.otherId);
+      const [baseJob, otherJob] = await Promise.all([
+        storage.getCrawlJob(baseJobId),
+        storage.getCrawlJob(otherJobId),
+      ]);
+      if (!baseJob || !otherJob) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const diff = await diffService.diffJobs(baseJobId, otherJobId);
+      res.json(diff);
+    } catch (error) {
+      console.error('Diff error:', error);
+      res.status(500).json({ message: "Failed to compare crawl jobs" });
+    }
+  });
+
+  // Pause a running crawl job; the crawler holds before its next page
+  app.post("/api/crawl-jobs/:id/pause", async (req, res) => {
+    await updateJobStatus(req.params.id, ["running"], "paused", res);
+  });
+
+  // Resume a paused crawl job; it gave up its worker, so it waits in the queue again
+  app.post("/api/crawl-jobs/:id/resume", async (req, res) => {
+    const job = await updateJobStatus(req.params.id, ["paused"], "pending", res);
+    if (job) {
+      jobQueue.enqueue(job);
+    }
+  });
+
+  // Cancel a crawl job; a queued job leaves the queue, a running one stops before its next page
+  app.post("/api/crawl-jobs/:id/cancel", async (req, res) => {
+    await updateJobStatus(req.params.id, ["pending", "running", "paused"], "cancelled", res);
+    jobQueue.remove(parseInt(req.params.id));
+  });
+
+  // Workers, limits and the jobs waiting for a worker, in the order they will be picked up
+  app.get("/api/queue", (req, res) => {
+    res.json(jobQueue.getStatus());
+  });
+
   // Download all results as zip file
   app.get("/api/crawl-jobs/:id/download", async (req, res) => {
     try {
       const jobId = parseInt(req.params.id);
-      const results = await storage.getCrawlResults(jobId);
       const job = await storage.getCrawlJob(jobId);
-      
-      console.log(`Download request for job ${jobId}, found ${results.length} results`);
-      
       if (!job) {
         return res.status(404).json({ message: "Job not found" });
       }
 
+      // Unchanged pages of a re-crawl take their content from the earlier jobs
+      const { results, assets } = await diffService.resolveForExport(job);
+      console.log(`Download request for job ${jobId}, found ${results.length} results`);
+
       const archive = archiver('zip', { zlib: { level: 9 } });
       
       // Handle archive errors
@@ -88,15 +178,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.attachment(`crawl-results-${jobId}.zip`);
       archive.pipe(res);
 
-      let fileCount = 0;
-      results.forEach((result, index) => {
-        if (result.markdownContent && result.status === 'success') {
-          const fileName = `${index + 1}-${sanitizeFileName(result.title || result.url)}.md`;
-          console.log(`Adding file ${fileName} with ${result.markdownContent.length} characters`);
-          archive.append(result.markdownContent, { name: fileName });
-          fileCount++;
-        }
-      });
+      const layout: ExportLayout = req.query.layout === 'hierarchy' ? 'hierarchy' : 'flat';
+      const rewriteLinks = req.query.rewriteLinks === 'true';
+      const fileCount = exportService.writeArchive(archive, job, results, assets, { layout, rewriteLinks });
 
       console.log(`Added ${fileCount} files to archive`);
       await archive.finalize();
@@ -107,6 +191,233 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List saved crawl configurations
+  app.get("/api/crawl-configs", async (req, res) => {
+    try {
+      const configs = await storage.getAllCrawlConfigs();
+      res.json(configs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch crawl configurations" });
+    }
+  });
+
+  // Save a new crawl configuration
+  app.post("/api/crawl-configs", async (req, res) => {
+    try {
+      const validatedData = insertCrawlConfigSchema
+        .superRefine((config, ctx) => checkSelectors(config.settings, ctx, ["settings"]))
+        .parse(req.body);
+      const config = await storage.createCrawlConfig(validatedData);
+      res.json(config);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to save crawl configuration" });
+      }
+    }
+  });
+
+  // Get a saved crawl configuration
+  app.get("/api/crawl-configs/:id", async (req, res) => {
+    try {
+      const config = await storage.getCrawlConfig(parseInt(req.params.id));
+      if (!config) {
+        return res.status(404).json({ message: "Configuration not found" });
+      }
+      res.json(config);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch crawl configuration" });
+    }
+  });
+
+  // Rename a configuration or replace its settings; each update is a new version
+  app.put("/api/crawl-configs/:id", async (req, res) => {
+    try {
+      const validatedData = insertCrawlConfigSchema.partial()
+        .superRefine((config, ctx) => config.settings && checkSelectors(config.settings, ctx, ["settings"]))
+        .parse(req.body);
+      const config = await storage.updateCrawlConfig(parseInt(req.params.id), validatedData);
+      if (!config) {
+        return res.status(404).json({ message: "Configuration not found" });
+      }
+      res.json(config);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update crawl configuration" });
+      }
+    }
+  });
+
+  // Delete a saved configuration; jobs started from it keep their config id and version
+  app.delete("/api/crawl-configs/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const schedules = (await storage.getAllCrawlSchedules()).filter(schedule => schedule.configId === id);
+      if (schedules.length > 0) {
+        return res.status(409).json({
+          message: `Configuration is used by ${schedules.length} schedule(s): ${schedules.map(schedule => schedule.name).join(", ")}`,
+        });
+      }
+
+      const deleted = await storage.deleteCrawlConfig(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Configuration not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete crawl configuration" });
+    }
+  });
+
+  // Start a crawl job from the current version of a saved configuration
+  app.post("/api/crawl-configs/:id/jobs", async (req, res) => {
+    try {
+      const config = await storage.getCrawlConfig(parseInt(req.params.id));
+      if (!config) {
+        return res.status(404).json({ message: "Configuration not found" });
+      }
+
+      const validatedData = insertCrawlJobSchema.superRefine(checkSelectors).parse({
+        ...config.settings,
+        configId: config.id,
+        configVersion: config.version,
+      });
+      const job = await storage.createCrawlJob(validatedData);
+      crawlEvents.publish({ type: "job", job });
+      jobQueue.enqueue(job);
+      res.json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Saved configuration is no longer valid", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create crawl job" });
+      }
+    }
+  });
+
+  // List crawl schedules
+  app.get("/api/crawl-schedules", async (req, res) => {
+    try {
+      const schedules = await storage.getAllCrawlSchedules();
+      res.json(schedules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch crawl schedules" });
+    }
+  });
+
+  // Schedule a saved configuration to run on a cron expression
+  app.post("/api/crawl-schedules", async (req, res) => {
+    try {
+      const validatedData = insertCrawlScheduleSchema.parse(req.body);
+      const schedule = await schedulerService.createSchedule(validatedData);
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+      } else if (error instanceof InvalidScheduleError) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to create crawl schedule" });
+      }
+    }
+  });
+
+  // Change a schedule; the next run time is recalculated
+  app.put("/api/crawl-schedules/:id", async (req, res) => {
+    try {
+      const validatedData = insertCrawlScheduleSchema.partial().parse(req.body);
+      const schedule = await schedulerService.updateSchedule(parseInt(req.params.id), validatedData);
+      if (!schedule) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+      } else if (error instanceof InvalidScheduleError) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update crawl schedule" });
+      }
+    }
+  });
+
+  // Delete a schedule and its run history; jobs it started are kept
+  app.delete("/api/crawl-schedules/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteCrawlSchedule(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete crawl schedule" });
+    }
+  });
+
+  // Every time the schedule came due, newest first
+  app.get("/api/crawl-schedules/:id/runs", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const schedule = await storage.getCrawlSchedule(id);
+      if (!schedule) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      const runs = await storage.getCrawlScheduleRuns(id);
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch schedule runs" });
+    }
+  });
+
+  // Walk links with a job's discovery settings, without saving or extracting anything
+  app.post("/api/discovery/dry-run", async (req, res) => {
+    try {
+      const options = discoveryOptionsSchema.parse(req.body);
+      const result = await crawlerService.dryRunDiscovery(options);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+      } else {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to run discovery" });
+      }
+    }
+  });
+
+  // Extract one page with a job's settings, without starting a crawl
+  app.post("/api/preview", async (req, res) => {
+    try {
+      const { url, ...options } = extractionRequestSchema.superRefine(checkSelectors).parse(req.body);
+      const preview = await crawlerService.previewExtraction(url, options);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+      } else {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to preview page" });
+      }
+    }
+  });
+
+  // Try a job's extraction selectors against one page
+  app.post("/api/test-selectors", async (req, res) => {
+    try {
+      const { url, ...options } = extractionRequestSchema.parse(req.body);
+      const result = await crawlerService.testSelectors(url, options);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+      } else {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to test selectors" });
+      }
+    }
+  });
+
   // Validate regex pattern
   app.post("/api/validate-regex", async (req, res) => {
     try {
@@ -127,9 +438,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupWebSocket(httpServer);
   return httpServer;
 }
 
-function sanitizeFileName(name: string): string {
-  return name.replace(/[^a-z0-9]/gi, '_').toLowerCase().substring(0, 50);
+async function updateJobStatus(
+  idParam: string,
+  allowedFrom: CrawlJob["status"][],
+  status: CrawlJob["status"],
+  res: Response,
+): Promise<CrawlJob | undefined> {
+  try {
+    const id = parseInt(idParam);
+    const job = await storage.getCrawlJob(id);
+    if (!job) {
+      res.status(404).json({ message: "Job not found" });
+      return undefined;
+    }
+    if (!allowedFrom.includes(job.status)) {
+      res.status(409).json({ message: `Cannot change job from ${job.status} to ${status}` });
+      return undefined;
+    }
+
+    const updatedJob = await storage.updateCrawlJob(id, { status });
+    if (updatedJob) {
+      crawlEvents.publish({ type: "job", job: updatedJob });
+    }
+    res.json(updatedJob);
+    return updatedJob;
+  } catch (error) {
+    res.status(500).json({ message: "Failed to update crawl job" });
+    return undefined;
+  }
 }
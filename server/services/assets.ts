@@ -0,0 +1,193 @@
+import * as cheerio from 'cheerio';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { extname, join } from 'path';
+import { storage } from '../storage';
+import type { CrawlJob } from '@shared/schema';
+
+// Linked files worth keeping when a job captures all assets, not only images
+const DOCUMENT_EXTENSIONS = new Set([
+  '.pdf', '.zip', '.csv', '.txt', '.json', '.xml',
+  '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
+]);
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'image/avif': '.avif',
+  'application/pdf': '.pdf',
+};
+
+/**
+ * Makes the request for one asset and resolves with a successful response. The
+ * crawler supplies it so assets go through the same robots.txt check and host
+ * rate limiter as its pages.
+ */
+export type AssetFetcher = (url: string) => Promise<Response>;
+
+export class AssetService {
+  private readonly assetDir = join(process.cwd(), 'crawl-assets');
+  // Bytes captured so far per job, loaded from storage the first time a job needs it
+  private jobUsage: Map<number, number>;
+  private capturedUrls: Map<number, Set<string>>;
+
+  constructor() {
+    this.jobUsage = new Map();
+    this.capturedUrls = new Map();
+  }
+
+  pathFor(fileName: string): string {
+    return join(this.assetDir, fileName);
+  }
+
+  // Drops a job's cached usage once its crawl ends; a resumed crawl reloads it from storage
+  forgetJob(jobId: number): void {
+    this.jobUsage.delete(jobId);
+    this.capturedUrls.delete(jobId);
+  }
+
+  /**
+   * Downloads the images (and, in "all" mode, linked documents) referenced by a
+   * page's extracted HTML. Failures and files over the job's limits are logged
+   * and skipped; they never fail the page itself.
+   */
+  async captureAssets(job: CrawlJob, pageUrl: string, html: string, fetchAsset: AssetFetcher): Promise<number> {
+    if (job.assetCapture === 'none') return 0;
+
+    const captured = await this.getCapturedUrls(job.id);
+    let count = 0;
+
+    for (const assetUrl of this.findAssetUrls(job, pageUrl, html)) {
+      if (captured.has(assetUrl)) continue;
+
+      const usage = this.jobUsage.get(job.id) ?? 0;
+      if (usage >= job.maxJobAssetBytes) {
+        console.warn(`Job ${job.id}: Asset limit of ${job.maxJobAssetBytes} bytes reached, not capturing ${assetUrl}`);
+        break;
+      }
+
+      try {
+        const limit = Math.min(job.maxAssetBytes, job.maxJobAssetBytes - usage);
+        if (await this.downloadAsset(job.id, assetUrl, limit, fetchAsset)) {
+          captured.add(assetUrl);
+          count++;
+        }
+      } catch (error) {
+        console.warn(`Job ${job.id}: Failed to capture asset ${assetUrl}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return count;
+  }
+
+  private findAssetUrls(job: CrawlJob, pageUrl: string, html: string): string[] {
+    const $ = cheerio.load(html);
+    const urls = new Set<string>();
+
+    const add = (href: string | undefined) => {
+      if (!href || href.startsWith('data:')) return;
+      try {
+        const url = new URL(href, pageUrl);
+        if (url.protocol === 'http:' || url.protocol === 'https:') {
+          url.hash = '';
+          urls.add(url.href);
+        }
+      } catch {
+        // Ignore malformed URLs
+      }
+    };
+
+    $('img[src]').each((_, element) => add($(element).attr('src')));
+
+    if (job.assetCapture === 'all') {
+      $('a[href]').each((_, element) => {
+        const href = $(element).attr('href');
+        if (!href) return;
+        try {
+          if (DOCUMENT_EXTENSIONS.has(extname(new URL(href, pageUrl).pathname).toLowerCase())) {
+            add(href);
+          }
+        } catch {
+          // Ignore malformed URLs
+        }
+      });
+    }
+
+    return Array.from(urls);
+  }
+
+  private async downloadAsset(jobId: number, url: string, limit: number, fetchAsset: AssetFetcher): Promise<boolean> {
+    const response = await fetchAsset(url);
+    const declaredSize = parseInt(response.headers.get('content-length') || '0');
+    if (declaredSize > limit) {
+      await response.body?.cancel();
+      console.warn(`Job ${jobId}: Skipping asset ${url} (${declaredSize} bytes exceeds limit of ${limit})`);
+      return false;
+    }
+
+    const data = await this.readWithLimit(response, limit);
+    if (!data) {
+      console.warn(`Job ${jobId}: Skipping asset ${url} (larger than ${limit} bytes)`);
+      return false;
+    }
+
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim() || null;
+    const hash = createHash('sha256').update(data).digest('hex');
+    const fileName = `${hash}${this.extensionFor(url, contentType)}`;
+
+    // Content-addressed: identical files from any page or job share one copy
+    const filePath = this.pathFor(fileName);
+    if (!existsSync(filePath)) {
+      mkdirSync(this.assetDir, { recursive: true });
+      writeFileSync(filePath, data);
+    }
+
+    await storage.createCrawlAsset({ jobId, sourceUrl: url, hash, fileName, contentType, size: data.length });
+    this.jobUsage.set(jobId, (this.jobUsage.get(jobId) ?? 0) + data.length);
+    return true;
+  }
+
+  // Reads the body but gives up as soon as it grows past the limit
+  private async readWithLimit(response: Response, limit: number): Promise<Buffer | null> {
+    if (!response.body) return Buffer.alloc(0);
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > limit) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  private extensionFor(url: string, contentType: string | null): string {
+    const fromPath = extname(new URL(url).pathname).toLowerCase();
+    if (/^\.[a-z0-9]{1,5}$/.test(fromPath)) return fromPath;
+    return (contentType && CONTENT_TYPE_EXTENSIONS[contentType]) || '';
+  }
+
+  private async getCapturedUrls(jobId: number): Promise<Set<string>> {
+    let captured = this.capturedUrls.get(jobId);
+    if (!captured) {
+      const assets = await storage.getCrawlAssets(jobId);
+      captured = new Set(assets.map(asset => asset.sourceUrl));
+      this.capturedUrls.set(jobId, captured);
+      this.jobUsage.set(jobId, assets.reduce((sum, asset) => sum + asset.size, 0));
+    }
+    return captured;
+  }
+}
+
+export const assetService = new AssetService();
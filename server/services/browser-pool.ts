@@ -0,0 +1,297 @@
+import puppeteer, { type Browser, type Page } from 'puppeteer';
+import { execSync } from 'child_process';
+import { readdir, readFile } from 'fs/promises';
+import { readLimit } from './env';
+
+const DEFAULT_MAX_BROWSERS = 2;
+// Open tabs per browser; further leases wait for a tab to close
+const DEFAULT_MAX_PAGES_PER_BROWSER = 4;
+// Long-lived Chromium leaks; replace it after serving this many pages
+const DEFAULT_RECYCLE_AFTER_PAGES = 200;
+// Resident memory of the browser and its renderer processes
+const DEFAULT_MAX_BROWSER_MEMORY_MB = 1024;
+// Measuring memory walks /proc, so it is done once per this many pages rather than on every release
+const MEMORY_CHECK_INTERVAL_PAGES = 20;
+// Browsers nobody has used for this long are closed until they are needed again
+const IDLE_CLOSE_DELAY = 60 * 1000;
+// A lease whose browser crashed mid-page is retried on a fresh browser this many times
+const CRASH_RETRIES = 1;
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--no-first-run',
+  '--no-zygote',
+  '--disable-gpu',
+];
+
+interface PooledBrowser {
+  id: number;
+  launching: Promise<Browser>;
+  browser: Browser | null;
+  openPages: number;
+  pagesServed: number;
+  // Set once the browser should take no new pages; it closes when its last page does
+  retiring: boolean;
+  crashed: boolean;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+interface Waiter {
+  resolve: (entry: PooledBrowser) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Chromium instances shared by every crawl, preview and dry run. Pages are
+ * leased with withPage(); browsers are launched on demand, replaced after
+ * BROWSER_RECYCLE_AFTER_PAGES pages or BROWSER_MAX_MEMORY_MB of memory, and
+ * dropped when they crash. BROWSER_POOL_SIZE and BROWSER_MAX_PAGES cap how
+ * many browsers and tabs are open at once.
+ */
+export class BrowserPool {
+  private readonly maxBrowsers = readLimit('BROWSER_POOL_SIZE', DEFAULT_MAX_BROWSERS);
+  private readonly maxPagesPerBrowser = readLimit('BROWSER_MAX_PAGES', DEFAULT_MAX_PAGES_PER_BROWSER);
+  private readonly recycleAfterPages = readLimit('BROWSER_RECYCLE_AFTER_PAGES', DEFAULT_RECYCLE_AFTER_PAGES);
+  private readonly maxMemoryBytes = readLimit('BROWSER_MAX_MEMORY_MB', DEFAULT_MAX_BROWSER_MEMORY_MB) * 1024 * 1024;
+  private browsers: PooledBrowser[] = [];
+  private waiters: Waiter[] = [];
+  private nextId = 1;
+  private executablePath: string | undefined | null = null;
+
+  async withPage<T>(task: (page: Page) => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const entry = await this.lease();
+      let page: Page | null = null;
+      try {
+        page = await entry.browser!.newPage();
+        return await task(page);
+      } catch (error) {
+        // The disconnected event can arrive after the failed call it caused
+        if (entry.browser && !entry.browser.connected) entry.crashed = true;
+        if (!entry.crashed || attempt >= CRASH_RETRIES) throw error;
+        console.warn(`Browser ${entry.id} crashed during a page, retrying on a new browser`);
+      } finally {
+        await this.release(entry, page);
+      }
+    }
+  }
+
+  private async lease(): Promise<PooledBrowser> {
+    const available = this.findAvailable();
+    if (available) {
+      this.take(available);
+      return available;
+    }
+
+    if (this.browsers.length < this.maxBrowsers) {
+      const entry = this.launch();
+      this.take(entry);
+      try {
+        await entry.launching;
+        // The new browser has room for more than this lease
+        this.wakeWaiters();
+        return entry;
+      } catch (error) {
+        this.remove(entry);
+        this.wakeWaiters();
+        throw error;
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  private findAvailable(): PooledBrowser | undefined {
+    return this.browsers.find(entry =>
+      entry.browser && !entry.retiring && !entry.crashed && entry.openPages < this.maxPagesPerBrowser
+    );
+  }
+
+  private take(entry: PooledBrowser): void {
+    entry.openPages++;
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+  }
+
+  private async release(entry: PooledBrowser, page: Page | null): Promise<void> {
+    if (page && !entry.crashed) {
+      await page.close().catch(() => {});
+    }
+    entry.openPages--;
+    entry.pagesServed++;
+
+    if (!entry.retiring && !entry.crashed) {
+      if (entry.pagesServed >= this.recycleAfterPages) {
+        this.retire(entry, `served ${entry.pagesServed} pages`);
+      } else if (entry.pagesServed % MEMORY_CHECK_INTERVAL_PAGES === 0) {
+        this.checkMemory(entry);
+      }
+    }
+
+    if (entry.openPages === 0) {
+      if (entry.retiring || entry.crashed) {
+        await this.close(entry);
+      } else {
+        entry.idleTimer = setTimeout(() => this.close(entry), IDLE_CLOSE_DELAY);
+        entry.idleTimer.unref();
+      }
+    }
+
+    this.wakeWaiters();
+  }
+
+  private launch(): PooledBrowser {
+    const id = this.nextId++;
+    console.log(`Launching browser ${id}`);
+
+    const launching = puppeteer.launch({
+      headless: true,
+      executablePath: this.findExecutable(),
+      args: LAUNCH_ARGS,
+    }).then(browser => {
+      entry.browser = browser;
+      browser.on('disconnected', () => {
+        if (!this.browsers.includes(entry)) return;
+        console.warn(`Browser ${id} disconnected unexpectedly`);
+        entry.crashed = true;
+        this.remove(entry);
+        this.wakeWaiters();
+      });
+      return browser;
+    });
+
+    const entry: PooledBrowser = {
+      id,
+      launching,
+      browser: null,
+      openPages: 0,
+      pagesServed: 0,
+      retiring: false,
+      crashed: false,
+      idleTimer: null,
+    };
+    this.browsers.push(entry);
+    return entry;
+  }
+
+  // Runs alongside the leases; a browser over the limit retires, closing now if nothing is open on it
+  private async checkMemory(entry: PooledBrowser): Promise<void> {
+    const memory = await this.memoryUsage(entry);
+    if (memory <= this.maxMemoryBytes || entry.retiring || entry.crashed || !this.browsers.includes(entry)) return;
+
+    this.retire(entry, `using ${Math.round(memory / 1024 / 1024)} MB`);
+    if (entry.openPages === 0) {
+      await this.close(entry);
+    }
+  }
+
+  private retire(entry: PooledBrowser, reason: string): void {
+    console.log(`Recycling browser ${entry.id} (${reason})`);
+    entry.retiring = true;
+  }
+
+  private async close(entry: PooledBrowser): Promise<void> {
+    this.remove(entry);
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+    await entry.browser?.close().catch(error => {
+      console.warn(`Failed to close browser ${entry.id}:`, error);
+    });
+    this.wakeWaiters();
+  }
+
+  private remove(entry: PooledBrowser): void {
+    this.browsers = this.browsers.filter(other => other !== entry);
+  }
+
+  // Hands free capacity to waiting leases in the order they asked
+  private wakeWaiters(): void {
+    while (this.waiters.length > 0) {
+      const available = this.findAvailable();
+      if (available) {
+        this.take(available);
+        this.waiters.shift()!.resolve(available);
+        continue;
+      }
+
+      if (this.browsers.length >= this.maxBrowsers) return;
+
+      const waiter = this.waiters.shift()!;
+      const entry = this.launch();
+      this.take(entry);
+      entry.launching.then(
+        () => {
+          waiter.resolve(entry);
+          this.wakeWaiters();
+        },
+        error => {
+          this.remove(entry);
+          waiter.reject(error);
+          this.wakeWaiters();
+        },
+      );
+    }
+  }
+
+  // Looked up once; puppeteer's bundled Chromium is used when there is no system chromium
+  private findExecutable(): string | undefined {
+    if (this.executablePath === null) {
+      try {
+        this.executablePath = execSync('which chromium', { encoding: 'utf8' }).trim();
+      } catch {
+        console.warn('Could not find chromium, using default');
+        this.executablePath = undefined;
+      }
+    }
+    return this.executablePath;
+  }
+
+  // Resident memory of the browser process and its children; 0 where /proc is unavailable
+  private async memoryUsage(entry: PooledBrowser): Promise<number> {
+    const pid = entry.browser?.process()?.pid;
+    if (!pid) return 0;
+
+    try {
+      const children = new Map<number, number[]>();
+      const pids = (await readdir('/proc')).filter(name => /^\d+$/.test(name));
+      await Promise.all(pids.map(async name => {
+        try {
+          // The command name in field 2 may contain spaces, so split after its closing paren
+          const stat = await readFile(`/proc/${name}/stat`, 'utf8');
+          const parentPid = parseInt(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[1]);
+          children.set(parentPid, [...(children.get(parentPid) ?? []), parseInt(name)]);
+        } catch {
+          // The process exited while we were looking
+        }
+      }));
+
+      let total = 0;
+      const pending = [pid];
+      while (pending.length > 0) {
+        const current = pending.pop()!;
+        try {
+          const status = await readFile(`/proc/${current}/status`, 'utf8');
+          const rss = status.match(/^VmRSS:\s+(\d+) kB/m);
+          if (rss) total += parseInt(rss[1]) * 1024;
+        } catch {
+          continue;
+        }
+        pending.push(...(children.get(current) ?? []));
+      }
+      return total;
+    } catch {
+      return 0;
+    }
+  }
+}
+
+export const browserPool = new BrowserPool();
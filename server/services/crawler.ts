@@ -1,14 +1,57 @@
-import puppeteer from 'puppeteer';
 import * as cheerio from 'cheerio';
 import TurndownService from 'turndown';
 import { storage } from '../storage';
-import type { CrawlJob, InsertCrawlResult } from '@shared/schema';
-import { execSync } from 'child_process';
+import { robotsService, CRAWLER_USER_AGENT } from './robots';
+import { sitemapService, type SitemapEntry } from './sitemap';
+import { crawlEvents } from './events';
+import { UrlFilter, startUrl } from './url-filter';
+import { normalizeUrl } from './url-normalizer';
+import { HttpError, classifyError } from './errors';
+import { assetService } from './assets';
+import { browserPool } from './browser-pool';
+import { rateLimiter, type RateCeiling } from './rate-limiter';
+import { extractMetadata, type PageMetadata } from './metadata';
+import { findMainContent, matchesKeep } from './readability';
+import type { CrawlJob, CrawlResult, InsertCrawlResult, CrawlCheckpoint, CrawlFrontierEntry, ExtractionOptions, ExtractionPreview, SelectorMatch, SelectorTestResult, DiscoveryOptions, DryRunLink, DryRunResult } from '@shared/schema';
+import { createHash } from 'crypto';
+
+// Below this much visible text, auto render mode treats static HTML as a JS shell
+const MIN_STATIC_TEXT_LENGTH = 200;
+// Previews re-run on every settings change, so fetched pages are reused for a while
+const PREVIEW_CACHE_TTL = 60 * 1000;
+// Longest wait between attempts at a page, whatever Retry-After asks for
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+// Long waits check this often whether the job was paused or cancelled meanwhile
+const STOP_CHECK_INTERVAL = 1000;
+// Dry runs answer an HTTP request, so they stop after this many pages
+const DRY_RUN_MAX_PAGES = 100;
+// Serial ids start at 1, so log events from a dry run reach no job's subscribers
+const DRY_RUN_JOB_ID = 0;
+
+interface FetchedPage {
+  html: string;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+type DiscoveryJob = DiscoveryOptions & Pick<CrawlJob, 'id'>;
+
+// The job settings fetchPage needs to pace its requests
+type RateLimitedJob = Pick<CrawlJob, 'id' | 'renderMode' | 'requestDelay' | 'maxConcurrent' | 'respectRobotsTxt'>;
+
+// Lets a dry run reuse discoverUrls without touching storage
+interface DryRunHooks {
+  maxPages: number;
+  onLinks: (links: CrawlFrontierEntry[]) => void;
+  onError: (message: string) => void;
+}
 
 export class CrawlerService {
   private turndownService: TurndownService;
+  private previewCache: Map<string, { html: string; fetchedAt: number }>;
 
   constructor() {
+    this.previewCache = new Map();
     this.turndownService = new TurndownService({
       headingStyle: 'atx',
       codeBlockStyle: 'fenced',
@@ -16,202 +59,849 @@ export class CrawlerService {
   }
 
   async crawlWebsite(jobId: number): Promise<void> {
-    console.log(`Starting crawl job ${jobId}`);
+    this.log(jobId, 'Starting crawl');
     const job = await storage.getCrawlJob(jobId);
     if (!job) {
       throw new Error('Job not found');
     }
 
-    console.log(`Job ${jobId} config:`, { baseUrl: job.baseUrl, patterns: job.regexPatterns, maxDepth: job.maxDepth });
-    await storage.updateCrawlJob(jobId, { status: 'running' });
+    if (job.status === 'cancelled' || job.status === 'paused') {
+      this.logStop(jobId, job.status, 'before it started');
+      return;
+    }
+
+    console.log(`Job ${jobId} config:`, {
+      baseUrl: job.baseUrl,
+      patterns: job.regexPatterns,
+      include: job.includePatterns,
+      exclude: job.excludePatterns,
+      follow: job.followPatterns,
+      maxDepth: job.maxDepth,
+    });
+    await this.updateJob(jobId, { status: 'running' });
 
     try {
-      console.log(`Launching browser for job ${jobId}`);
-      
-      // Find Chrome executable path
-      let executablePath: string | undefined;
-      try {
-        executablePath = execSync('which chromium', { encoding: 'utf8' }).trim();
-      } catch (error) {
-        console.warn('Could not find chromium, using default');
+      let checkpoint = job.checkpoint;
+      if (checkpoint) {
+        this.log(jobId, `Resuming ${checkpoint.phase} from checkpoint (${checkpoint.visited.length} visited, ${checkpoint.frontier.length} left)`);
+      } else {
+        checkpoint = await this.createCheckpoint(job);
+        await this.updateJob(jobId, { checkpoint });
       }
-      
-      const browser = await puppeteer.launch({
-        headless: true,
-        executablePath,
-        args: [
-          '--no-sandbox', 
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-accelerated-2d-canvas',
-          '--no-first-run',
-          '--no-zygote',
-          '--disable-gpu'
-        ],
-      });
 
-      console.log(`Discovering URLs for job ${jobId}`);
-      const discoveredUrls = await this.discoverUrls(browser, job);
-      console.log(`Job ${jobId}: Found ${discoveredUrls.length} matching URLs`);
-      await storage.updateCrawlJob(jobId, { totalPages: discoveredUrls.length });
+      if (checkpoint.phase === 'discovery') {
+        this.log(jobId, `Discovering URLs (mode: ${job.discoveryMode})`);
+        await this.discoverUrls(job, checkpoint);
 
-      const results: InsertCrawlResult[] = [];
-      
-      for (let i = 0; i < discoveredUrls.length; i++) {
-        const url = discoveredUrls[i];
-        
-        try {
-          await this.delay(job.requestDelay);
-          const result = await this.extractContent(browser, url, job);
-          results.push({
-            jobId,
-            url,
-            title: result.title,
-            content: result.content,
-            markdownContent: result.markdownContent,
-            fileSize: result.markdownContent?.length || 0,
-            status: 'success',
-            errorMessage: null,
-          });
-
-          await storage.createCrawlResult(results[results.length - 1]);
-          await storage.updateCrawlJob(jobId, { processedPages: i + 1 });
-        } catch (error) {
-          const errorResult: InsertCrawlResult = {
-            jobId,
-            url,
+        const stopped = await this.stopReason(jobId);
+        if (stopped) {
+          this.logStop(jobId, stopped, 'during discovery');
+          return;
+        }
+
+        checkpoint = {
+          ...checkpoint,
+          phase: 'extraction',
+          frontier: [...checkpoint.discovered],
+          visited: [],
+        };
+        this.log(jobId, `Found ${checkpoint.discovered.length} matching URLs`);
+        await this.updateJob(jobId, {
+          totalPages: checkpoint.discovered.length,
+          processedPages: 0,
+          checkpoint,
+        });
+      }
+
+      const seenPages = await this.loadSeenPages(jobId);
+      const previousResults = await this.loadPreviousResults(job);
+
+      while (checkpoint.frontier.length > 0) {
+        const stopped = await this.stopReason(jobId);
+        if (stopped) {
+          this.logStop(jobId, stopped, `after ${checkpoint.visited.length} of ${checkpoint.discovered.length} pages`);
+          return;
+        }
+
+        const { url } = checkpoint.frontier[0];
+        const lastmod = checkpoint.lastModified[url];
+        const crawled = await this.crawlPage(url, job, previousResults?.get(url));
+        // Stopped while waiting to retry; the page stays in the frontier for when the job resumes
+        if (!crawled) continue;
+        let result = crawled;
+
+        const duplicateOf = this.findDuplicate(result, seenPages);
+        if (duplicateOf) {
+          this.log(jobId, `Skipping ${url} (duplicate of ${duplicateOf})`);
+          result = {
+            ...result,
             title: null,
             content: null,
             markdownContent: null,
             fileSize: 0,
-            status: 'error',
-            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+            status: 'skipped',
+            errorMessage: `Duplicate of ${duplicateOf}`,
           };
-          
-          await storage.createCrawlResult(errorResult);
-          await storage.updateCrawlJob(jobId, { processedPages: i + 1 });
+        } else if (result.status === 'success') {
+          this.rememberPage(result, seenPages);
         }
+
+        await this.saveResult({ ...result, lastModified: lastmod ? new Date(lastmod) : null });
+
+        checkpoint.frontier.shift();
+        checkpoint.visited.push(url);
+        await this.updateJob(jobId, {
+          processedPages: checkpoint.visited.length,
+          effectiveRate: rateLimiter.currentRate(url),
+          checkpoint,
+        });
       }
 
-      await browser.close();
-      await storage.updateCrawlJob(jobId, { status: 'completed' });
+      const stopped = await this.stopReason(jobId);
+      if (stopped) {
+        this.logStop(jobId, stopped, 'after the last page');
+        return;
+      }
+
+      if (previousResults) {
+        await this.recordRemovedPages(job, checkpoint, previousResults);
+      }
+      await this.updateJob(jobId, { status: 'completed', checkpoint: null });
     } catch (error) {
-      await storage.updateCrawlJob(jobId, { 
+      await this.updateJob(jobId, { 
         status: 'error',
         processedPages: 0,
       });
       throw error;
+    } finally {
+      assetService.forgetJob(jobId);
     }
   }
 
-  private async discoverUrls(browser: any, job: CrawlJob): Promise<string[]> {
-    const visited = new Set<string>();
-    const toVisit = [job.baseUrl];
-    const discovered = new Set<string>();
-    let currentDepth = 0;
+  /**
+   * Readies a finished job to crawl only the pages that ended in an error.
+   * Their results are dropped and the extraction phase resumes with just those
+   * URLs; every other result stays. Returns undefined when nothing failed.
+   */
+  async prepareRetry(job: CrawlJob): Promise<CrawlJob | undefined> {
+    const results = await storage.getCrawlResults(job.id);
+    const failed = results.filter(result => result.status === 'error');
+    if (failed.length === 0) return undefined;
+
+    const failedUrls = new Set(failed.map(result => result.url));
+    const checkpoint: CrawlCheckpoint = {
+      phase: 'extraction',
+      frontier: failed.map(result => ({ url: result.url, depth: 0 })),
+      visited: results.filter(result => !failedUrls.has(result.url)).map(result => result.url),
+      // Every URL the job has a result for, so a re-crawl doesn't report kept pages as removed
+      discovered: results.map(result => ({ url: result.url, depth: 0 })),
+      lastModified: Object.fromEntries(failed.map(result => [result.url, result.lastModified?.toISOString() ?? null])),
+    };
+
+    await storage.deleteCrawlResults(failed.map(result => result.id));
+    this.log(job.id, `Retrying ${failed.length} failed pages`);
+    return storage.updateCrawlJob(job.id, {
+      status: 'pending',
+      totalPages: checkpoint.visited.length + checkpoint.frontier.length,
+      processedPages: checkpoint.visited.length,
+      checkpoint,
+    });
+  }
+
+  private async createCheckpoint(job: CrawlJob): Promise<CrawlCheckpoint> {
+    const checkpoint: CrawlCheckpoint = {
+      phase: 'discovery',
+      frontier: job.discoveryMode !== 'sitemap' ? [{ url: startUrl(job), depth: 0 }] : [],
+      visited: [],
+      discovered: [],
+      lastModified: {},
+    };
 
-    const regexPatterns = job.regexPatterns.map(pattern => new RegExp(pattern));
+    if (job.discoveryMode !== 'links') {
+      const sitemapUrls = await this.discoverSitemapUrls(job);
+      sitemapUrls.forEach(entry => {
+        checkpoint.discovered.push({ url: entry.url, depth: 0 });
+        checkpoint.lastModified[entry.url] = entry.lastmod?.toISOString() ?? null;
+      });
+    }
+
+    return checkpoint;
+  }
 
-    while (toVisit.length > 0 && currentDepth < job.maxDepth) {
-      const currentBatch = toVisit.splice(0, job.maxConcurrent);
+  // Pages already saved for this job, keyed by content hash and by canonical URL
+  private async loadSeenPages(jobId: number): Promise<Map<string, string>> {
+    const seenPages = new Map<string, string>();
+    const results = await storage.getCrawlResults(jobId);
+    results
+      .filter(result => result.status === 'success')
+      .forEach(result => this.rememberPage(result, seenPages));
+    return seenPages;
+  }
+
+  private rememberPage(result: Pick<InsertCrawlResult, 'url' | 'contentHash' | 'canonicalUrl'>, seenPages: Map<string, string>): void {
+    if (result.contentHash) seenPages.set(`hash:${result.contentHash}`, result.url);
+    if (result.canonicalUrl) seenPages.set(`canonical:${result.canonicalUrl}`, result.url);
+  }
+
+  private findDuplicate(result: InsertCrawlResult, seenPages: Map<string, string>): string | undefined {
+    if (result.status !== 'success') return undefined;
+    return (result.canonicalUrl ? seenPages.get(`canonical:${result.canonicalUrl}`) : undefined)
+      ?? (result.contentHash ? seenPages.get(`hash:${result.contentHash}`) : undefined);
+  }
+
+  /**
+   * For a re-crawl, the successful results of the previous run keyed by URL.
+   * Returns undefined for a first crawl.
+   */
+  private async loadPreviousResults(job: CrawlJob): Promise<Map<string, CrawlResult> | undefined> {
+    if (!job.previousJobId) return undefined;
+
+    const results = await storage.getCrawlResults(job.previousJobId);
+    const previous = new Map<string, CrawlResult>();
+    results
+      .filter(result => result.status === 'success')
+      .forEach(result => previous.set(result.url, result));
+    this.log(job.id, `Comparing against ${previous.size} pages from job ${job.previousJobId}`);
+    return previous;
+  }
+
+  private async recordRemovedPages(job: CrawlJob, checkpoint: CrawlCheckpoint, previousResults: Map<string, CrawlResult>): Promise<void> {
+    const current = new Set(checkpoint.discovered.map(entry => entry.url));
+    for (const previous of Array.from(previousResults.values())) {
+      if (current.has(previous.url)) continue;
+
+      await this.saveResult({
+        jobId: job.id,
+        url: previous.url,
+        title: previous.title,
+        content: null,
+        markdownContent: null,
+        fileSize: 0,
+        status: 'skipped',
+        errorMessage: 'No longer found on the site',
+        canonicalUrl: previous.canonicalUrl,
+        changeStatus: 'removed',
+      });
+    }
+  }
+
+  // Null when the job was paused or cancelled during a retry backoff
+  private async crawlPage(
+    url: string,
+    job: CrawlJob,
+    previous?: CrawlResult,
+  ): Promise<InsertCrawlResult | null> {
+    if (job.respectRobotsTxt && !(await robotsService.isAllowed(url))) {
+      this.log(job.id, `Skipping ${url} (disallowed by robots.txt)`);
+      return {
+        jobId: job.id,
+        url,
+        title: null,
+        content: null,
+        markdownContent: null,
+        fileSize: 0,
+        status: 'skipped',
+        errorMessage: 'Disallowed by robots.txt',
+      };
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.fetchAndExtract(url, job, previous);
+        return { ...result, attempts: attempt };
+      } catch (error) {
+        const category = classifyError(error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if (attempt < job.maxAttempts && job.retryOn.includes(category)) {
+          const wait = this.retryDelay(job, attempt, error);
+          this.log(job.id, `Attempt ${attempt} of ${job.maxAttempts} for ${url} failed (${category}: ${message}), retrying in ${wait} ms`, 'warn');
+          if (await this.waitUnlessStopped(job.id, wait)) return null;
+          continue;
+        }
+
+        this.log(job.id, `Failed to crawl ${url}: ${message}`, 'error');
+        const gone = error instanceof HttpError && (error.status === 404 || error.status === 410);
+        return {
+          jobId: job.id,
+          url,
+          title: null,
+          content: null,
+          markdownContent: null,
+          fileSize: 0,
+          status: 'error',
+          errorMessage: message,
+          errorCategory: category,
+          attempts: attempt,
+          changeStatus: previous && gone ? 'removed' : null,
+        };
+      }
+    }
+  }
+
+  // Exponential backoff, stretched to the server's Retry-After when it asks for longer
+  private retryDelay(job: CrawlJob, attempt: number, error: unknown): number {
+    const backoff = job.retryBackoffMs * 2 ** (attempt - 1);
+    const retryAfter = error instanceof HttpError ? error.retryAfterMs ?? 0 : 0;
+    return Math.min(Math.max(backoff, retryAfter), MAX_RETRY_DELAY);
+  }
+
+  // One attempt at a page; throws on any fetch or extraction failure
+  private async fetchAndExtract(url: string, job: CrawlJob, previous?: CrawlResult): Promise<InsertCrawlResult> {
+    const isRecrawl = !!job.previousJobId;
+    const page = await this.fetchPage(url, job, previous);
+    // 304 Not Modified: carry the previous result forward without its content
+    if (!page) {
+      return this.unchangedResult(job, previous!);
+    }
+
+    const result = this.extractContent(page.html, url, job);
+    const contentHash = createHash('sha256').update(result.markdownContent.trim()).digest('hex');
+    if (isRecrawl && previous?.contentHash === contentHash) {
+      return {
+        ...this.unchangedResult(job, previous),
+        ...result.metadata,
+        title: result.title,
+        etag: page.etag,
+        httpLastModified: page.lastModified,
+      };
+    }
+
+    if (job.assetCapture !== 'none') {
+      const captured = await assetService.captureAssets(job, url, result.content, assetUrl => this.fetchAsset(assetUrl, job));
+      if (captured > 0) this.log(job.id, `Captured ${captured} assets from ${url}`);
+    }
+
+    return {
+      jobId: job.id,
+      url,
+      title: result.title,
+      content: result.content,
+      markdownContent: result.markdownContent,
+      fileSize: result.markdownContent?.length || 0,
+      status: 'success',
+      errorMessage: null,
+      canonicalUrl: result.canonicalUrl,
+      contentHash,
+      ...result.metadata,
+      etag: page.etag,
+      httpLastModified: page.lastModified,
+      changeStatus: isRecrawl ? (previous ? 'changed' : 'new') : null,
+    };
+  }
+
+  private unchangedResult(job: CrawlJob, previous: CrawlResult): InsertCrawlResult {
+    return {
+      jobId: job.id,
+      url: previous.url,
+      title: previous.title,
+      content: null,
+      markdownContent: null,
+      fileSize: 0,
+      status: 'success',
+      errorMessage: null,
+      canonicalUrl: previous.canonicalUrl,
+      contentHash: previous.contentHash,
+      description: previous.description,
+      language: previous.language,
+      author: previous.author,
+      publishedAt: previous.publishedAt,
+      modifiedAt: previous.modifiedAt,
+      etag: previous.etag,
+      httpLastModified: previous.httpLastModified,
+      changeStatus: 'unchanged',
+    };
+  }
+
+  private async updateJob(jobId: number, updates: Partial<CrawlJob>): Promise<void> {
+    const job = await storage.updateCrawlJob(jobId, updates);
+    if (job) {
+      crawlEvents.publish({ type: 'job', job });
+    }
+  }
+
+  private async saveResult(insertResult: InsertCrawlResult): Promise<void> {
+    const result = await storage.createCrawlResult(insertResult);
+    crawlEvents.publish({ type: 'result', result });
+  }
+
+  private log(jobId: number, message: string, level: 'info' | 'warn' | 'error' = 'info'): void {
+    const line = `Job ${jobId}: ${message}`;
+    if (level === 'error') console.error(line);
+    else if (level === 'warn') console.warn(line);
+    else console.log(line);
+
+    crawlEvents.publish({ type: 'log', jobId, level, message, timestamp: new Date().toISOString() });
+  }
+
+  /**
+   * Checked between pages. Returns why the crawl should stop once the job is
+   * no longer running, or null to carry on. A paused job keeps its checkpoint
+   * and gives up its worker; resuming queues it again. A job resumed before
+   * the crawl noticed the pause is already pending again, so it stops too.
+   */
+  private async stopReason(jobId: number): Promise<'paused' | 'cancelled' | null> {
+    const job = await storage.getCrawlJob(jobId);
+    if (!job || job.status === 'cancelled') return 'cancelled';
+    if (job.status === 'paused' || job.status === 'pending') return 'paused';
+    return null;
+  }
+
+  // Sleeps in short slices so a pause or cancel isn't held up by a long wait; true if the job stopped
+  private async waitUnlessStopped(jobId: number, ms: number): Promise<boolean> {
+    const until = Date.now() + ms;
+    for (let left = ms; left > 0; left = until - Date.now()) {
+      await this.delay(Math.min(left, STOP_CHECK_INTERVAL));
+      if (await this.stopReason(jobId)) return true;
+    }
+    return false;
+  }
+
+  private logStop(jobId: number, reason: 'paused' | 'cancelled', when: string): void {
+    this.log(jobId, `${reason === 'paused' ? 'Paused' : 'Cancelled'} ${when}`);
+  }
+
+  /**
+   * Breadth-first link discovery. Works on the checkpoint in place and saves it
+   * after every batch so an interrupted crawl can carry on from the same frontier.
+   */
+  private async discoverUrls(
+    job: DiscoveryJob,
+    checkpoint: CrawlCheckpoint,
+    dryRun?: DryRunHooks,
+  ): Promise<void> {
+    const visited = new Set(checkpoint.visited);
+    const seen = new Set([...checkpoint.visited, ...checkpoint.frontier.map(entry => entry.url)]);
+    const discovered = new Set(checkpoint.discovered.map(entry => entry.url));
+
+    const urlFilter = new UrlFilter(job);
+
+    while (checkpoint.frontier.length > 0) {
+      if (dryRun ? visited.size >= dryRun.maxPages : await this.stopReason(job.id)) break;
+
+      const currentBatch = checkpoint.frontier.splice(0, job.maxConcurrent);
       
-      const promises = currentBatch.map(async (url) => {
-        if (visited.has(url)) return [];
+      const promises = currentBatch.map(async ({ url, depth }) => {
         visited.add(url);
+        checkpoint.visited.push(url);
+
+        if (job.respectRobotsTxt && !(await robotsService.isAllowed(url))) {
+          const message = `Not following ${url} (disallowed by robots.txt)`;
+          dryRun ? dryRun.onError(message) : this.log(job.id, message);
+          return [];
+        }
 
         try {
-          const page = await browser.newPage();
-          await page.goto(url, { waitUntil: 'networkidle0', timeout: 30000 });
-          
-          const content = await page.content();
-          const $ = cheerio.load(content);
-          
-          const links: string[] = [];
-          $('a[href]').each((_, element) => {
-            const href = $(element).attr('href');
-            if (href) {
-              const absoluteUrl = new URL(href, url).href;
-              if (absoluteUrl.startsWith(job.baseUrl) && !visited.has(absoluteUrl)) {
-                links.push(absoluteUrl);
-              }
-            }
-          });
-
-          await page.close();
-          return links;
+          const { html } = (await this.fetchPage(url, job))!;
+          const links = this.extractLinks(html, url, job)
+            .map(link => ({ url: link, depth: depth + 1 }));
+          dryRun?.onLinks(links);
+
+          return links.filter(link => urlFilter.inScope(link.url) && !visited.has(link.url));
         } catch (error) {
-          console.error(`Error discovering URLs from ${url}:`, error);
+          const message = `Error discovering URLs from ${url}: ${error instanceof Error ? error.message : error}`;
+          dryRun ? dryRun.onError(message) : this.log(job.id, message, 'error');
           return [];
         }
       });
 
       const results = await Promise.all(promises);
-      const newUrls = results.flat();
+      const newEntries = results.flat();
       
-      newUrls.forEach(url => {
-        if (!visited.has(url)) {
-          toVisit.push(url);
-          
-          // Check if URL matches any regex pattern
-          const matches = regexPatterns.some(pattern => pattern.test(url));
-          if (matches) {
-            discovered.add(url);
-          }
+      newEntries.forEach(entry => {
+        if (seen.has(entry.url)) return;
+        seen.add(entry.url);
+
+        // Links one level past maxDepth are still collected, just not followed
+        if (entry.depth < job.maxDepth && urlFilter.shouldFollow(entry.url)) {
+          checkpoint.frontier.push(entry);
+        }
+
+        if (urlFilter.shouldCollect(entry.url) && !discovered.has(entry.url)) {
+          discovered.add(entry.url);
+          checkpoint.discovered.push(entry);
         }
       });
 
-      currentDepth++;
+      if (!dryRun) {
+        await this.updateJob(job.id, { effectiveRate: rateLimiter.currentRate(job.baseUrl), checkpoint });
+      }
+    }
+  }
+
+  // Every http(s) link on a page, resolved and normalized
+  private extractLinks(html: string, pageUrl: string, job: Pick<CrawlJob, 'urlNormalization'>): string[] {
+    const $ = cheerio.load(html);
+    const links: string[] = [];
+
+    $('a[href]').each((_, element) => {
+      const href = $(element).attr('href');
+      if (!href) return;
+      try {
+        const absolute = new URL(href, pageUrl);
+        if (absolute.protocol === 'http:' || absolute.protocol === 'https:') {
+          links.push(normalizeUrl(absolute.href, job.urlNormalization));
+        }
+      } catch {
+        // Ignore malformed links
+      }
+    });
+
+    return links;
+  }
+
+  private async discoverSitemapUrls(job: CrawlJob): Promise<SitemapEntry[]> {
+    const urlFilter = new UrlFilter(job);
+    const entries = await sitemapService.discover(job.baseUrl);
+
+    // Sitemap URLs go through the same normalization, scope and pattern filter as crawled links
+    const normalized = new Map<string, SitemapEntry>();
+    entries.forEach(entry => {
+      const url = normalizeUrl(entry.url, job.urlNormalization);
+      if (!normalized.has(url) && urlFilter.shouldCollect(url)) {
+        normalized.set(url, { ...entry, url });
+      }
+    });
+    return Array.from(normalized.values());
+  }
+
+  /**
+   * Walks links from the base URL exactly like a crawl's discovery phase, but
+   * without saving anything or extracting content, and reports what happened
+   * to every link found so patterns can be tuned before a real crawl.
+   */
+  async dryRunDiscovery(options: DiscoveryOptions): Promise<DryRunResult> {
+    const job: DiscoveryJob = { ...options, id: DRY_RUN_JOB_ID };
+    const urlFilter = new UrlFilter(job);
+    const checkpoint: CrawlCheckpoint = {
+      phase: 'discovery',
+      frontier: [{ url: startUrl(job), depth: 0 }],
+      visited: [],
+      discovered: [],
+      lastModified: {},
+    };
+    const links = new Map<string, DryRunLink>();
+    const errors: string[] = [];
+
+    await this.discoverUrls(job, checkpoint, {
+      maxPages: DRY_RUN_MAX_PAGES,
+      onLinks: found => found.forEach(({ url, depth }) => {
+        // Breadth-first, so the first sighting of a link is at its shallowest depth
+        if (links.has(url)) return;
+        const inScope = urlFilter.inScope(url);
+        const matchedPattern = inScope ? urlFilter.matchedPattern(url) : null;
+        links.set(url, { url, depth, inScope, followed: false, matched: !!matchedPattern, matchedPattern });
+      }),
+      onError: message => errors.push(message),
+    });
+
+    const visited = new Set(checkpoint.visited);
+    links.forEach(link => {
+      link.followed = visited.has(link.url);
+    });
+
+    return {
+      links: Array.from(links.values()),
+      pagesVisited: checkpoint.visited.length,
+      truncated: checkpoint.frontier.length > 0,
+      errors,
+    };
+  }
+
+  /**
+   * Runs extraction for a single URL with the given settings and reports
+   * how long fetching and extracting took.
+   */
+  async previewExtraction(url: string, options: ExtractionOptions): Promise<ExtractionPreview> {
+    const fetchStart = Date.now();
+    const { html, cached } = await this.fetchForPreview(url, options.renderMode);
+    const fetchMs = Date.now() - fetchStart;
+
+    const extractStart = Date.now();
+    const result = this.extractContent(html, url, options);
+    const extractMs = Date.now() - extractStart;
+
+    return {
+      title: result.title,
+      content: result.content,
+      markdownContent: result.markdownContent,
+      timing: { fetchMs, extractMs, cached },
+    };
+  }
+
+  /**
+   * Fetches one page and reports how many elements each of the custom
+   * selectors matches, along with the markdown they produce. Lets users check
+   * their selectors before starting a crawl.
+   */
+  async testSelectors(url: string, options: ExtractionOptions): Promise<SelectorTestResult> {
+    const { html } = await this.fetchForPreview(url, options.renderMode);
+    const $ = cheerio.load(html);
+
+    const selectors: [SelectorMatch['kind'], string | null][] = [
+      ['content', options.contentSelector],
+      ['title', options.titleSelector],
+      ...options.removeSelectors.map(selector => ['remove', selector] as [SelectorMatch['kind'], string]),
+      ...options.keepSelectors.map(selector => ['keep', selector] as [SelectorMatch['kind'], string]),
+    ];
+
+    const matches: SelectorMatch[] = [];
+    for (const [kind, selector] of selectors) {
+      if (!selector) continue;
+      try {
+        matches.push({ kind, selector, count: $(selector).length });
+      } catch (error) {
+        matches.push({ kind, selector, count: 0, error: error instanceof Error ? error.message : 'Invalid selector' });
+      }
+    }
+
+    // An invalid selector would make extraction throw, so only report the matches
+    if (matches.some(match => match.error)) {
+      return { title: '', markdownContent: '', matches };
     }
 
-    return Array.from(discovered);
+    const result = this.extractContent(html, url, options);
+    return { title: result.title, markdownContent: result.markdownContent, matches };
   }
 
-  private async extractContent(browser: any, url: string, job: CrawlJob): Promise<{
+  // Extraction of HTML already in hand, for the saved fixtures in server/fixtures/extraction
+  extractHtml(html: string, url: string, options: ExtractionOptions): { title: string; markdownContent: string } {
+    const { title, markdownContent } = this.extractContent(html, url, options);
+    return { title, markdownContent };
+  }
+
+  private extractContent(html: string, url: string, job: ExtractionOptions): {
     title: string;
     content: string;
     markdownContent: string;
-  }> {
-    const page = await browser.newPage();
-    await page.goto(url, { waitUntil: 'networkidle0', timeout: 30000 });
-    
-    const content = await page.content();
-    const $ = cheerio.load(content);
+    canonicalUrl: string;
+    metadata: PageMetadata;
+  } {
+    const $ = cheerio.load(html);
+    const metadata = extractMetadata($);
 
     // Extract title
-    const title = $('title').text().trim() || $('h1').first().text().trim() || 'Untitled';
+    const title = (job.titleSelector && $(job.titleSelector).first().text().trim())
+      || $('title').text().trim() || $('h1').first().text().trim() || 'Untitled';
+
+    // Prefer the page's own <link rel="canonical"> over the URL we reached it by
+    const canonicalHref = $('link[rel="canonical"]').attr('href');
+    let canonicalUrl = normalizeUrl(url, job.urlNormalization);
+    if (canonicalHref) {
+      try {
+        canonicalUrl = normalizeUrl(new URL(canonicalHref, url).href, job.urlNormalization);
+      } catch {
+        // Ignore malformed canonical links
+      }
+    }
+
+    // Remove unwanted elements if configured, sparing anything the job asks to keep
+    const keep = job.keepSelectors.join(', ');
+    const remove = (selector: string) => {
+      $(selector)
+        .filter((_, element) => !keep || !matchesKeep($(element), keep))
+        .remove();
+    };
 
-    // Remove unwanted elements if configured
     if (job.removeNavigation) {
-      $('nav, header, footer, .navigation, .nav, .menu, .sidebar').remove();
+      remove('nav, header, footer, .navigation, .nav, .menu, .sidebar');
     }
 
     if (job.cleanFormatting) {
-      $('script, style, noscript, iframe, object, embed').remove();
-      $('.advertisement, .ads, .social-share, .comments').remove();
+      remove('script, style, noscript, iframe, object, embed');
+      remove('.advertisement, .ads, .social-share, .comments');
     }
 
     if (!job.includeImages) {
-      $('img').remove();
+      remove('img');
     }
 
-    // Extract main content (try to find article, main, or content area)
+    job.removeSelectors.forEach(remove);
+
+    const contentRoot = job.contentSelector ? $(job.contentSelector).first() : null;
+    const htmlContent = (contentRoot?.length && contentRoot.html())
+      || (job.extractionStrategy === 'readability' && findMainContent($, keep))
+      || this.selectMainContent($);
+    const markdownContent = this.turndownService.turndown(htmlContent);
+
+    return {
+      title,
+      content: htmlContent,
+      markdownContent,
+      canonicalUrl,
+      metadata,
+    };
+  }
+
+  // Extract main content (try to find article, main, or content area)
+  private selectMainContent($: cheerio.CheerioAPI): string {
     let mainContent = $('article, main, .content, .post-content, .entry-content, .article-content').first();
     if (mainContent.length === 0) {
       mainContent = $('body');
     }
+    return mainContent.html() || '';
+  }
 
-    const htmlContent = mainContent.html() || '';
-    const markdownContent = this.turndownService.turndown(htmlContent);
+  /**
+   * Fetches a page according to the job's render mode. When `previous` carries
+   * an ETag or Last-Modified, the request is made conditional and null is
+   * returned if the server answers 304 Not Modified. Every request waits its
+   * turn with the host's rate limiter.
+   */
+  private async fetchPage(
+    url: string,
+    job: RateLimitedJob,
+    previous?: Pick<CrawlResult, 'etag' | 'httpLastModified'>,
+  ): Promise<FetchedPage | null> {
+    const conditional = !!(previous?.etag || previous?.httpLastModified);
+
+    if (job.renderMode === 'browser' && !conditional) {
+      return this.throttled(url, job, () => this.fetchWithBrowser(url));
+    }
+
+    const page = await this.throttled(url, job, () => this.fetchStatic(url, previous));
+    if (!page) {
+      return null;
+    }
+    if (job.renderMode === 'static') {
+      return page;
+    }
+    if (job.renderMode === 'browser') {
+      return this.throttled(url, job, () => this.fetchWithBrowser(url));
+    }
+
+    // Auto mode: pages that are mostly an empty JS shell get rendered in Chromium
+    const textLength = this.visibleTextLength(page.html);
+    if (textLength >= MIN_STATIC_TEXT_LENGTH) {
+      return page;
+    }
+
+    this.log(job.id, `Static HTML for ${url} has ${textLength} characters of text, rendering in browser`);
+    return this.throttled(url, job, () => this.fetchWithBrowser(url));
+  }
+
+  // Assets are held to the same robots.txt rules and host rate limit as pages
+  private async fetchAsset(url: string, job: RateLimitedJob): Promise<Response> {
+    if (job.respectRobotsTxt && !(await robotsService.isAllowed(url))) {
+      throw new Error('Disallowed by robots.txt');
+    }
+
+    return this.throttled(url, job, async () => {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT },
+        signal: AbortSignal.timeout(30000),
+      });
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new HttpError(response.status, response.statusText, response.headers.get('retry-after'));
+      }
+      return response;
+    });
+  }
+
+  // Runs one request once the rate limiter allows it and tells the limiter how the host responded
+  private async throttled<T>(url: string, job: RateLimitedJob, request: () => Promise<T>): Promise<T> {
+    await rateLimiter.acquire(url, await this.getRateCeiling(url, job));
+    const startedAt = Date.now();
+    try {
+      const page = await request();
+      rateLimiter.report(url, { latencyMs: Date.now() - startedAt });
+      return page;
+    } catch (error) {
+      rateLimiter.report(url, {
+        latencyMs: Date.now() - startedAt,
+        status: error instanceof HttpError ? error.status : undefined,
+        retryAfterMs: error instanceof HttpError ? error.retryAfterMs : undefined,
+      });
+      throw error;
+    }
+  }
+
+  // One-off fetch outside a crawl: never conditional, and cached briefly for repeated previews
+  private async fetchForPreview(url: string, renderMode: CrawlJob['renderMode']): Promise<{ html: string; cached: boolean }> {
+    const now = Date.now();
+    this.previewCache.forEach((entry, key) => {
+      if (now - entry.fetchedAt > PREVIEW_CACHE_TTL) this.previewCache.delete(key);
+    });
+
+    const cacheKey = `${renderMode} ${url}`;
+    const cached = this.previewCache.get(cacheKey);
+    if (cached) {
+      return { html: cached.html, cached: true };
+    }
+
+    const html = await this.fetchPreviewPage(url, renderMode);
+    this.previewCache.set(cacheKey, { html, fetchedAt: Date.now() });
+    return { html, cached: false };
+  }
 
-    await page.close();
+  private async fetchPreviewPage(url: string, renderMode: CrawlJob['renderMode']): Promise<string> {
+    if (renderMode !== 'browser') {
+      const page = (await this.fetchStatic(url))!;
+      if (renderMode === 'static' || this.visibleTextLength(page.html) >= MIN_STATIC_TEXT_LENGTH) {
+        return page.html;
+      }
+    }
+
+    return (await this.fetchWithBrowser(url)).html;
+  }
 
+  private visibleTextLength(html: string): number {
+    const $ = cheerio.load(html);
+    $('script, style, noscript, template').remove();
+    return $('body').text().replace(/\s+/g, ' ').trim().length;
+  }
+
+  private async fetchStatic(url: string, previous?: Pick<CrawlResult, 'etag' | 'httpLastModified'>): Promise<FetchedPage | null> {
+    const headers: Record<string, string> = {
+      'User-Agent': CRAWLER_USER_AGENT,
+      'Accept': 'text/html,application/xhtml+xml',
+    };
+    if (previous?.etag) headers['If-None-Match'] = previous.etag;
+    if (previous?.httpLastModified) headers['If-Modified-Since'] = previous.httpLastModified;
+
+    const response = await fetch(url, { headers, signal: AbortSignal.timeout(30000) });
+    if (response.status === 304) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new HttpError(response.status, response.statusText, response.headers.get('retry-after'));
+    }
     return {
-      title,
-      content: htmlContent,
-      markdownContent,
+      html: await response.text(),
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
     };
   }
 
+  private async fetchWithBrowser(url: string): Promise<FetchedPage> {
+    return browserPool.withPage(async page => {
+      const response = await page.goto(url, { waitUntil: 'networkidle0', timeout: 30000 });
+      if (response && response.status() >= 400) {
+        throw new HttpError(response.status(), response.statusText(), response.headers()['retry-after'] ?? null);
+      }
+      const headers = response?.headers() ?? {};
+      return {
+        html: await page.content(),
+        etag: headers['etag'] ?? null,
+        lastModified: headers['last-modified'] ?? null,
+      };
+    });
+  }
+
+  /**
+   * One request per requestDelay, with up to maxConcurrent at once after a
+   * quiet spell. Crawl-delay from robots.txt is in seconds, only ever
+   * lengthens the job's own delay and allows no bursts.
+   */
+  private async getRateCeiling(url: string, job: RateLimitedJob): Promise<RateCeiling> {
+    const ceiling = { rate: 1000 / Math.max(job.requestDelay, 1), burst: job.maxConcurrent };
+    if (!job.respectRobotsTxt) return ceiling;
+
+    const crawlDelay = await robotsService.getCrawlDelay(url);
+    if (crawlDelay === undefined || crawlDelay * 1000 <= job.requestDelay) return ceiling;
+    return { rate: 1 / crawlDelay, burst: 1 };
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
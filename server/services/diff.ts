@@ -0,0 +1,114 @@
+import { createTwoFilesPatch } from 'diff';
+import { storage } from '../storage';
+import { normalizeUrl } from './url-normalizer';
+import type { CrawlAsset, CrawlDiff, CrawlDiffPage, CrawlJob, CrawlResult } from '@shared/schema';
+
+// Re-crawls can chain; stop following previousJobId after this many hops
+const MAX_CHAIN_LENGTH = 50;
+
+interface ResolvedPage extends CrawlDiffPage {
+  markdown: string;
+}
+
+export class DiffService {
+  async diffJobs(baseJobId: number, otherJobId: number): Promise<CrawlDiff> {
+    const [basePages, otherPages] = await Promise.all([
+      this.resolvePages(baseJobId),
+      this.resolvePages(otherJobId),
+    ]);
+
+    const diff: CrawlDiff = { baseJobId, otherJobId, added: [], removed: [], changed: [], unchangedCount: 0 };
+
+    Array.from(otherPages.values()).forEach(page => {
+      const basePage = basePages.get(page.canonicalUrl);
+      if (!basePage) {
+        diff.added.push(this.toDiffPage(page));
+      } else if (basePage.markdown === page.markdown) {
+        diff.unchangedCount++;
+      } else {
+        diff.changed.push({
+          ...this.toDiffPage(page),
+          diff: createTwoFilesPatch(basePage.url, page.url, basePage.markdown, page.markdown, `job ${baseJobId}`, `job ${otherJobId}`),
+        });
+      }
+    });
+
+    Array.from(basePages.values()).forEach(page => {
+      if (!otherPages.has(page.canonicalUrl)) {
+        diff.removed.push(this.toDiffPage(page));
+      }
+    });
+
+    return diff;
+  }
+
+  /**
+   * A job's results and assets, complete enough to export on their own. Pages
+   * an incremental re-crawl marked unchanged get their markdown from the jobs
+   * before it, and those jobs' assets come along for the pages that use them.
+   */
+  async resolveForExport(job: CrawlJob): Promise<{ results: CrawlResult[]; assets: CrawlAsset[] }> {
+    const results = await storage.getCrawlResults(job.id);
+    const assets = await storage.getCrawlAssets(job.id);
+    const unchanged = results.some(result => result.changeStatus === 'unchanged' && !result.markdownContent);
+    if (!unchanged || !job.previousJobId) {
+      return { results, assets };
+    }
+
+    const previousPages = await this.resolvePages(job.previousJobId);
+    const resolved = results.map(result => {
+      if (result.changeStatus !== 'unchanged' || result.markdownContent) return result;
+      const canonicalUrl = result.canonicalUrl ?? normalizeUrl(result.url, job.urlNormalization);
+      return { ...result, markdownContent: previousPages.get(canonicalUrl)?.markdown || null };
+    });
+
+    // The newest copy of each asset wins, as with pages
+    const assetsByUrl = new Map(assets.map(asset => [asset.sourceUrl, asset]));
+    let previousJobId: number | null = job.previousJobId;
+    for (let hops = 0; previousJobId && hops < MAX_CHAIN_LENGTH; hops++) {
+      (await storage.getCrawlAssets(previousJobId)).forEach(asset => {
+        if (!assetsByUrl.has(asset.sourceUrl)) assetsByUrl.set(asset.sourceUrl, asset);
+      });
+      previousJobId = (await storage.getCrawlJob(previousJobId))?.previousJobId ?? null;
+    }
+
+    return { results: resolved, assets: Array.from(assetsByUrl.values()) };
+  }
+
+  /**
+   * Successful pages of a job keyed by canonical URL. Pages an incremental
+   * re-crawl marked unchanged have no content of their own, so it is taken
+   * from the job they were compared against.
+   */
+  private async resolvePages(jobId: number, chainLength = 0): Promise<Map<string, ResolvedPage>> {
+    const job = await storage.getCrawlJob(jobId);
+    const results = (await storage.getCrawlResults(jobId)).filter(result => result.status === 'success');
+
+    const needsPrevious = results.some(result => result.changeStatus === 'unchanged');
+    const previousPages = needsPrevious && job?.previousJobId && chainLength < MAX_CHAIN_LENGTH
+      ? await this.resolvePages(job.previousJobId, chainLength + 1)
+      : new Map<string, ResolvedPage>();
+
+    const pages = new Map<string, ResolvedPage>();
+    // Results are newest first, so the latest copy of a page wins
+    results.forEach(result => {
+      const canonicalUrl = result.canonicalUrl ?? normalizeUrl(result.url, job?.urlNormalization);
+      if (pages.has(canonicalUrl)) return;
+
+      pages.set(canonicalUrl, {
+        canonicalUrl,
+        url: result.url,
+        title: result.title,
+        markdown: result.markdownContent ?? previousPages.get(canonicalUrl)?.markdown ?? '',
+      });
+    });
+
+    return pages;
+  }
+
+  private toDiffPage(page: ResolvedPage): CrawlDiffPage {
+    return { canonicalUrl: page.canonicalUrl, url: page.url, title: page.title };
+  }
+}
+
+export const diffService = new DiffService();
@@ -0,0 +1,5 @@
+// A positive whole number from the environment, or the fallback when it is unset or invalid
+export function readLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
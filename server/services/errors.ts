@@ -0,0 +1,57 @@
+import type { ErrorCategory } from '@shared/schema';
+
+export class HttpError extends Error {
+  status: number;
+  // How long the server asked us to wait, from its Retry-After header
+  retryAfterMs: number | null;
+
+  constructor(status: number, statusText: string, retryAfter: string | null = null) {
+    super(`HTTP ${status} ${statusText}`.trim());
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterMs = parseRetryAfter(retryAfter);
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Node's fetch reports network failures as a TypeError whose cause carries the socket error code
+const TIMEOUT_CODES = ['ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'];
+
+export function classifyError(error: unknown): ErrorCategory {
+  if (error instanceof HttpError) {
+    if (error.status === 429) return 'rate-limit';
+    return error.status >= 500 ? 'server-error' : 'client-error';
+  }
+  if (!(error instanceof Error)) return 'extraction';
+
+  // AbortSignal.timeout and puppeteer both name their errors TimeoutError
+  const code = (error.cause as { code?: string } | undefined)?.code;
+  if (error.name === 'TimeoutError' || (code && TIMEOUT_CODES.includes(code))) {
+    return 'timeout';
+  }
+  // fetch failures (refused, DNS, reset) and Chromium's net::ERR_* navigation errors
+  if ((error instanceof TypeError && error.message === 'fetch failed') || error.message.includes('net::ERR_')) {
+    return 'navigation';
+  }
+  return 'extraction';
+}
+
+// A schedule's cron expression, timezone or configuration can't be used
+export class InvalidScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidScheduleError';
+  }
+}
@@ -0,0 +1,27 @@
+import { EventEmitter } from 'events';
+import type { CrawlEvent } from '@shared/schema';
+
+export class CrawlEventBus {
+  private emitter: EventEmitter;
+
+  constructor() {
+    this.emitter = new EventEmitter();
+    // Every open WebSocket adds a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: CrawlEvent): void {
+    // Checkpoints can hold thousands of URLs and are of no use to clients
+    if (event.type === 'job' && event.job.checkpoint) {
+      event = { ...event, job: { ...event.job, checkpoint: null } };
+    }
+    this.emitter.emit('event', event);
+  }
+
+  subscribe(listener: (event: CrawlEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => this.emitter.off('event', listener);
+  }
+}
+
+export const crawlEvents = new CrawlEventBus();
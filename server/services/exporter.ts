@@ -0,0 +1,201 @@
+import type { Archiver } from 'archiver';
+import { posix } from 'path';
+import type { CrawlAsset, CrawlJob, CrawlResult } from '@shared/schema';
+import { assetService } from './assets';
+import { normalizeUrl } from './url-normalizer';
+
+export type ExportLayout = 'flat' | 'hierarchy';
+
+export interface ExportOptions {
+  layout: ExportLayout;
+  // Point links between crawled pages at their .md files instead of the live site
+  rewriteLinks: boolean;
+}
+
+export interface ExportFile {
+  path: string;
+  result: CrawlResult;
+}
+
+interface ManifestEntry {
+  file: string;
+  url: string;
+  title: string | null;
+  crawledAt: string;
+}
+
+export class ExportService {
+  /**
+   * Adds every successful page of a crawl to the archive, plus a manifest.json
+   * that maps each file back to its source URL. Captured assets go under
+   * assets/ and the pages' references to them are pointed there.
+   */
+  writeArchive(archive: Archiver, job: CrawlJob, results: CrawlResult[], assets: CrawlAsset[], options: ExportOptions): number {
+    const files = this.planFiles(results, options.layout);
+    const fileIndex = options.rewriteLinks ? this.indexFiles(job, files) : new Map<string, string>();
+    const assetIndex = new Map(assets.map(asset => [asset.sourceUrl, `assets/${asset.fileName}`]));
+
+    files.forEach(({ path, result }) => {
+      const markdown = fileIndex.size > 0 || assetIndex.size > 0
+        ? this.rewriteLinks(result.markdownContent!, result.url, path, job, fileIndex, assetIndex)
+        : result.markdownContent!;
+      archive.append(job.frontMatter ? this.frontMatter(result) + markdown : markdown, { name: path });
+    });
+
+    // Several source URLs can share one stored file
+    new Set(assetIndex.values()).forEach(assetPath => {
+      archive.file(assetService.pathFor(posix.basename(assetPath)), { name: assetPath });
+    });
+
+    const manifest: ManifestEntry[] = files.map(({ path, result }) => ({
+      file: path,
+      url: result.url,
+      title: result.title,
+      crawledAt: new Date(result.createdAt).toISOString(),
+    }));
+    archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+
+    return files.length;
+  }
+
+  planFiles(results: CrawlResult[], layout: ExportLayout): ExportFile[] {
+    const exportable = results.filter(result => result.markdownContent && result.status === 'success');
+
+    if (layout === 'flat') {
+      return exportable.map((result, index) => ({
+        path: `${index + 1}-${sanitizeFileName(result.title || result.url)}.md`,
+        result,
+      }));
+    }
+
+    // A page whose path is also a parent of other pages becomes that folder's index.md
+    const directories = new Set<string>();
+    exportable.forEach(result => {
+      const segments = this.pathSegments(result.url);
+      for (let i = 1; i < segments.length; i++) {
+        directories.add(segments.slice(0, i).join('/'));
+      }
+    });
+
+    const used = new Set<string>();
+    return exportable.map(result => {
+      const segments = this.pathSegments(result.url);
+      const isDirectory = new URL(result.url).pathname.endsWith('/') || directories.has(segments.join('/'));
+      const base = isDirectory ? [...segments, 'index'].join('/') : segments.join('/');
+
+      let path = `${base}.md`;
+      for (let n = 2; used.has(path); n++) {
+        path = `${base}-${n}.md`;
+      }
+      used.add(path);
+
+      return { path, result };
+    });
+  }
+
+  // YAML block with the page's metadata; fields the page didn't provide are left out
+  private frontMatter(result: CrawlResult): string {
+    const fields: [string, string | Date | null][] = [
+      ['url', result.url],
+      ['title', result.title],
+      ['description', result.description],
+      ['canonical_url', result.canonicalUrl],
+      ['lang', result.language],
+      ['author', result.author],
+      ['published', result.publishedAt],
+      ['modified', result.modifiedAt],
+      ['crawled_at', result.createdAt],
+      ['content_hash', result.contentHash],
+    ];
+
+    const lines = fields
+      .filter(([, value]) => value !== null && value !== undefined)
+      // A JSON string is also a valid double-quoted YAML scalar
+      .map(([key, value]) => `${key}: ${JSON.stringify(value instanceof Date ? value.toISOString() : value)}`);
+
+    return `---\n${lines.join('\n')}\n---\n\n`;
+  }
+
+  // Export path of each page, keyed by its normalized URL and its canonical URL
+  private indexFiles(job: CrawlJob, files: ExportFile[]): Map<string, string> {
+    const index = new Map<string, string>();
+    files.forEach(({ path, result }) => {
+      index.set(normalizeUrl(result.url, job.urlNormalization), path);
+      if (result.canonicalUrl && !index.has(result.canonicalUrl)) {
+        index.set(result.canonicalUrl, path);
+      }
+    });
+    return index;
+  }
+
+  /**
+   * Rewrites markdown links and images whose target is a captured asset, or a
+   * link whose target is another exported page, into a relative path inside
+   * the archive, keeping any #anchor. Everything else is left alone.
+   */
+  private rewriteLinks(
+    markdown: string,
+    pageUrl: string,
+    filePath: string,
+    job: CrawlJob,
+    fileIndex: Map<string, string>,
+    assetIndex: Map<string, string>,
+  ): string {
+    return markdown.replace(/(!?)\[([^\]]*)\]\(([^)\s]+)((?:\s+"[^"]*")?)\)/g, (match, bang, text, href, title) => {
+      let target: URL;
+      try {
+        target = new URL(href, pageUrl);
+      } catch {
+        return match;
+      }
+      if (target.protocol !== 'http:' && target.protocol !== 'https:') return match;
+
+      const targetUrl = target.href.split('#')[0];
+      const targetPath = assetIndex.get(targetUrl)
+        ?? (bang ? undefined : fileIndex.get(normalizeUrl(targetUrl, job.urlNormalization)));
+      if (!targetPath) return match;
+
+      const relativePath = targetPath === filePath
+        ? ''
+        : posix.relative(posix.dirname(filePath), targetPath);
+      const link = `${relativePath}${target.hash}` || posix.basename(filePath);
+      return `${bang}[${text}](${link}${title})`;
+    });
+  }
+
+  // host/path/to/page for a URL; the query string, if any, is folded into the last segment
+  private pathSegments(url: string): string[] {
+    const parsed = new URL(url);
+    const segments = parsed.pathname
+      .split('/')
+      .filter(segment => segment !== '')
+      .map(segment => sanitizePathSegment(decodeURIComponentSafe(segment).replace(/\.html?$/i, '')));
+
+    if (parsed.search) {
+      const query = sanitizePathSegment(parsed.search.slice(1));
+      if (segments.length === 0) segments.push('index');
+      segments[segments.length - 1] += `_${query}`;
+    }
+
+    return [sanitizePathSegment(parsed.host), ...segments];
+  }
+}
+
+export function sanitizeFileName(name: string): string {
+  return name.replace(/[^a-z0-9]/gi, '_').toLowerCase().substring(0, 50);
+}
+
+function sanitizePathSegment(segment: string): string {
+  const cleaned = segment.replace(/[^a-z0-9._-]/gi, '_').replace(/^\.+/, '_').substring(0, 100);
+  return cleaned || '_';
+}
+
+function decodeURIComponentSafe(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export const exportService = new ExportService();
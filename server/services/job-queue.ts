@@ -0,0 +1,129 @@
+import { storage } from '../storage';
+import { crawlerService } from './crawler';
+import { crawlEvents } from './events';
+import { readLimit } from './env';
+import type { CrawlJob, QueueStatus } from '@shared/schema';
+
+// Each worker runs one crawl (and at most one browser) at a time
+const DEFAULT_WORKERS = 2;
+// Jobs for the same host share its politeness budget, so only this many run together
+const DEFAULT_MAX_JOBS_PER_HOST = 1;
+
+interface QueueEntry {
+  jobId: number;
+  host: string;
+  priority: number;
+  // Breaks priority ties in submission order
+  sequence: number;
+}
+
+/**
+ * Holds crawl jobs as pending until a worker is free and their host is under
+ * its limit. CRAWL_WORKERS and CRAWL_MAX_JOBS_PER_HOST override the defaults.
+ */
+export class JobQueue {
+  private readonly workers = readLimit('CRAWL_WORKERS', DEFAULT_WORKERS);
+  private readonly maxJobsPerHost = readLimit('CRAWL_MAX_JOBS_PER_HOST', DEFAULT_MAX_JOBS_PER_HOST);
+  private pending: QueueEntry[] = [];
+  private running = new Map<number, string>();
+  private nextSequence = 0;
+
+  enqueue(job: CrawlJob): void {
+    if (this.running.has(job.id) || this.pending.some(entry => entry.jobId === job.id)) return;
+
+    this.pending.push({
+      jobId: job.id,
+      host: new URL(job.baseUrl).host,
+      priority: job.priority,
+      sequence: this.nextSequence++,
+    });
+    this.pending.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+    this.dispatch();
+  }
+
+  // Drops a job that was cancelled before a worker picked it up
+  remove(jobId: number): void {
+    const before = this.pending.length;
+    this.pending = this.pending.filter(entry => entry.jobId !== jobId);
+    if (this.pending.length !== before) {
+      this.publish();
+    }
+  }
+
+  getStatus(): QueueStatus {
+    return {
+      workers: this.workers,
+      maxJobsPerHost: this.maxJobsPerHost,
+      running: Array.from(this.running.keys()),
+      pending: this.pending.map((entry, index) => ({
+        jobId: entry.jobId,
+        host: entry.host,
+        priority: entry.priority,
+        position: index + 1,
+      })),
+    };
+  }
+
+  /**
+   * Queues jobs that were pending or running when the server stopped. Jobs
+   * with a checkpoint continue from it; the rest start over. Paused jobs hold
+   * no worker and wait until someone resumes them.
+   */
+  async resumeInterruptedJobs(): Promise<void> {
+    const jobs = await storage.getAllCrawlJobs();
+    const interrupted = jobs
+      .filter(job => ['pending', 'running'].includes(job.status))
+      .sort((a, b) => a.id - b.id);
+
+    for (const job of interrupted) {
+      console.log(`Resuming interrupted crawl job ${job.id} (${job.status})`);
+      // Running jobs wait in line like new ones
+      if (job.status === 'running') {
+        const pendingJob = await storage.updateCrawlJob(job.id, { status: 'pending' });
+        if (pendingJob) {
+          crawlEvents.publish({ type: 'job', job: pendingJob });
+        }
+      }
+      this.enqueue(job);
+    }
+  }
+
+  private dispatch(): void {
+    while (this.running.size < this.workers) {
+      const index = this.pending.findIndex(entry => this.jobsForHost(entry.host) < this.maxJobsPerHost);
+      if (index === -1) break;
+
+      const [entry] = this.pending.splice(index, 1);
+      this.running.set(entry.jobId, entry.host);
+      crawlerService.crawlWebsite(entry.jobId)
+        .catch(error => {
+          console.error(`Crawling job ${entry.jobId} failed:`, error);
+          console.error('Error details:', error.stack);
+        })
+        .finally(() => this.finish(entry.jobId));
+    }
+    this.publish();
+  }
+
+  // Frees the worker. A crawl stops when its job is paused, and a job resumed
+  // while its crawl was still winding down is pending again and goes back in line.
+  private async finish(jobId: number): Promise<void> {
+    this.running.delete(jobId);
+    const job = await storage.getCrawlJob(jobId).catch(() => undefined);
+    if (job?.status === 'pending') {
+      this.enqueue(job);
+    } else {
+      this.dispatch();
+    }
+  }
+
+  private jobsForHost(host: string): number {
+    return Array.from(this.running.values()).filter(runningHost => runningHost === host).length;
+  }
+
+  private publish(): void {
+    crawlEvents.publish({ type: 'queue', queue: this.getStatus() });
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,82 @@
+import type { CheerioAPI } from 'cheerio';
+
+export interface PageMetadata {
+  description: string | null;
+  language: string | null;
+  author: string | null;
+  publishedAt: Date | null;
+  modifiedAt: Date | null;
+}
+
+/**
+ * Reads descriptive metadata from a page's meta tags, falling back to any
+ * JSON-LD blocks (schema.org Article, WebPage, ...) for author and dates.
+ * Must run before script tags are stripped from the document.
+ */
+export function extractMetadata($: CheerioAPI): PageMetadata {
+  const meta = (...selectors: string[]): string | null => {
+    for (const selector of selectors) {
+      const value = $(selector).attr('content')?.trim();
+      if (value) return value;
+    }
+    return null;
+  };
+
+  const jsonLd = readJsonLd($);
+
+  return {
+    description: meta('meta[name="description"]', 'meta[property="og:description"]', 'meta[name="twitter:description"]'),
+    language: $('html').attr('lang')?.trim() || meta('meta[http-equiv="content-language"]'),
+    author: meta('meta[name="author"]', 'meta[property="article:author"]') ?? authorName(jsonLd.author),
+    publishedAt: parseDate(meta('meta[property="article:published_time"]', 'meta[name="date"]') ?? jsonLd.datePublished),
+    modifiedAt: parseDate(meta('meta[property="article:modified_time"]', 'meta[property="og:updated_time"]') ?? jsonLd.dateModified),
+  };
+}
+
+// Merges the fields we care about from every JSON-LD object on the page; the first value wins
+function readJsonLd($: CheerioAPI): { author?: unknown; datePublished?: string; dateModified?: string } {
+  const found: { author?: unknown; datePublished?: string; dateModified?: string } = {};
+
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    const item = node as Record<string, unknown>;
+    if (found.author === undefined && item.author) found.author = item.author;
+    if (!found.datePublished && typeof item.datePublished === 'string') found.datePublished = item.datePublished;
+    if (!found.dateModified && typeof item.dateModified === 'string') found.dateModified = item.dateModified;
+    if (item['@graph']) visit(item['@graph']);
+  };
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      visit(JSON.parse($(element).text()));
+    } catch {
+      // Ignore malformed JSON-LD
+    }
+  });
+
+  return found;
+}
+
+function authorName(author: unknown): string | null {
+  if (typeof author === 'string') return author.trim() || null;
+  if (Array.isArray(author)) {
+    const names = author.map(authorName).filter((name): name is string => !!name);
+    return names.length > 0 ? names.join(', ') : null;
+  }
+  if (author && typeof author === 'object') {
+    const name = (author as Record<string, unknown>).name;
+    return typeof name === 'string' ? name.trim() || null : null;
+  }
+  return null;
+}
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,156 @@
+// Never slow a host below one request every ten seconds
+const MIN_RATE = 0.1;
+// 429 and 503 halve the rate; a latency spike takes off a quarter
+const RATE_LIMITED_FACTOR = 0.5;
+const SLOW_RESPONSE_FACTOR = 0.75;
+// Each healthy response wins back this share of the ceiling
+const RECOVERY_STEP = 0.05;
+// Responses already in flight when a host pushed back shouldn't cut the rate again
+const SLOWDOWN_COOLDOWN = 2000;
+// Smoothing for the recent latency and the slower-moving baseline it is compared with
+const RECENT_LATENCY_WEIGHT = 0.3;
+const BASELINE_LATENCY_WEIGHT = 0.05;
+// Responses needed before the baseline means anything
+const LATENCY_WARMUP_SAMPLES = 5;
+// Recent latency this many times the baseline, and above the floor, counts as the host struggling
+const SLOW_LATENCY_RATIO = 2;
+const SLOW_LATENCY_FLOOR = 1000;
+// Hosts nobody has requested for this long start over at their ceiling
+const IDLE_FORGET_DELAY = 30 * 60 * 1000;
+
+export interface RateCeiling {
+  // Requests per second the job allows at most
+  rate: number;
+  // Requests that may go out back to back after a quiet spell
+  burst: number;
+}
+
+export interface RateSample {
+  latencyMs: number;
+  // Set when the host answered with an error status
+  status?: number;
+  retryAfterMs?: number | null;
+}
+
+interface HostBucket {
+  tokens: number;
+  refilledAt: number;
+  rate: number;
+  ceiling: RateCeiling;
+  recentLatency: number;
+  baselineLatency: number;
+  samples: number;
+  slowedAt: number;
+  usedAt: number;
+}
+
+/**
+ * Per-host token buckets shared by discovery and extraction. Every request
+ * takes a token; tokens refill at the host's current rate, which is cut when
+ * the host answers 429/503 or gets slower and climbs back toward the job's
+ * ceiling while responses stay healthy.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, HostBucket>();
+
+  // Resolves once a request to this URL's host may go out
+  async acquire(url: string, ceiling: RateCeiling): Promise<void> {
+    const bucket = this.bucketFor(new URL(url).host, ceiling);
+    this.refill(bucket);
+
+    // Tokens go negative to queue requests behind each other in the order they asked
+    bucket.tokens -= 1;
+    if (bucket.tokens < 0) {
+      await new Promise(resolve => setTimeout(resolve, -bucket.tokens / bucket.rate * 1000));
+    }
+  }
+
+  report(url: string, sample: RateSample): void {
+    const host = new URL(url).host;
+    const bucket = this.buckets.get(host);
+    if (!bucket) return;
+
+    if (sample.status === 429 || sample.status === 503) {
+      this.slowDown(host, bucket, RATE_LIMITED_FACTOR, `HTTP ${sample.status}`);
+      // Hold every request to the host for as long as it asked
+      const hold = (sample.retryAfterMs ?? 0) / 1000 * bucket.rate;
+      bucket.tokens = Math.min(bucket.tokens, -hold);
+      return;
+    }
+
+    this.recordLatency(bucket, sample.latencyMs);
+    if (
+      bucket.samples > LATENCY_WARMUP_SAMPLES &&
+      bucket.recentLatency > SLOW_LATENCY_FLOOR &&
+      bucket.recentLatency > bucket.baselineLatency * SLOW_LATENCY_RATIO
+    ) {
+      this.slowDown(host, bucket, SLOW_RESPONSE_FACTOR, `latency ${Math.round(bucket.recentLatency)} ms`);
+    } else if (sample.status === undefined && bucket.rate < bucket.ceiling.rate) {
+      bucket.rate = Math.min(bucket.ceiling.rate, bucket.rate + bucket.ceiling.rate * RECOVERY_STEP);
+    }
+  }
+
+  // Requests per second currently allowed to the URL's host, or null before the first request
+  currentRate(url: string): number | null {
+    return this.buckets.get(new URL(url).host)?.rate ?? null;
+  }
+
+  private bucketFor(host: string, ceiling: RateCeiling): HostBucket {
+    const now = Date.now();
+    this.buckets.forEach((bucket, key) => {
+      if (now - bucket.usedAt > IDLE_FORGET_DELAY) this.buckets.delete(key);
+    });
+
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = {
+        tokens: ceiling.burst,
+        refilledAt: now,
+        rate: ceiling.rate,
+        ceiling,
+        recentLatency: 0,
+        baselineLatency: 0,
+        samples: 0,
+        slowedAt: 0,
+        usedAt: now,
+      };
+      this.buckets.set(host, bucket);
+    }
+
+    // Jobs on the same host can be configured differently; the latest request's ceiling applies
+    bucket.ceiling = ceiling;
+    bucket.rate = Math.min(bucket.rate, ceiling.rate);
+    bucket.usedAt = now;
+    return bucket;
+  }
+
+  private refill(bucket: HostBucket): void {
+    const now = Date.now();
+    bucket.tokens = Math.min(bucket.ceiling.burst, bucket.tokens + (now - bucket.refilledAt) / 1000 * bucket.rate);
+    bucket.refilledAt = now;
+  }
+
+  private slowDown(host: string, bucket: HostBucket, factor: number, reason: string): void {
+    const now = Date.now();
+    if (now - bucket.slowedAt < SLOWDOWN_COOLDOWN) return;
+
+    // Tokens earned at the old rate are settled before it changes
+    this.refill(bucket);
+    bucket.rate = Math.max(MIN_RATE, bucket.rate * factor);
+    bucket.slowedAt = now;
+    console.warn(`Slowing requests to ${host} to ${bucket.rate.toFixed(2)}/s (${reason})`);
+  }
+
+  private recordLatency(bucket: HostBucket, latencyMs: number): void {
+    if (bucket.samples === 0) {
+      bucket.recentLatency = latencyMs;
+      bucket.baselineLatency = latencyMs;
+    } else {
+      bucket.recentLatency += (latencyMs - bucket.recentLatency) * RECENT_LATENCY_WEIGHT;
+      bucket.baselineLatency += (latencyMs - bucket.baselineLatency) * BASELINE_LATENCY_WEIGHT;
+    }
+    bucket.samples++;
+  }
+}
+
+export const rateLimiter = new RateLimiter();
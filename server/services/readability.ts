@@ -0,0 +1,178 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+
+// Class/id hints, after Mozilla Readability
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+const SCORED_TAGS = 'p, pre, td, blockquote, section, h2, h3, h4, h5, h6';
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_SIBLING_SCORE = 10;
+
+/**
+ * Finds the element most likely to hold a page's main content by scoring
+ * text blocks: each paragraph adds points (for its length and commas) to its
+ * parent and half as many to its grandparent, containers are weighted by tag
+ * and by class/id hints, and every score is discounted by how much of the
+ * container's text is link text. Siblings of the winner that score well or
+ * read like prose are kept alongside it.
+ *
+ * Strips page furniture from `doc` as it goes, except elements matching,
+ * containing or inside `keep`. Returns the chosen content as HTML, or null
+ * when nothing scored.
+ */
+export function findMainContent(doc: CheerioAPI, keep = ''): string | null {
+  const body = doc('body');
+  const isKept = (node: Cheerio<Element>) => !!keep && matchesKeep(node, keep);
+
+  doc('script, style, noscript, template, iframe, form, nav, aside, footer')
+    .filter((_, element) => !isKept(doc(element)))
+    .remove();
+
+  // Drop blocks whose class/id marks them as page furniture, unless they also look like content
+  body.find('*').each((_, element) => {
+    const node = doc(element);
+    const tag = element.tagName.toLowerCase();
+    if (tag === 'body' || tag === 'article' || tag === 'main' || node.closest('article, main').length > 0) return;
+
+    const hint = `${node.attr('class') ?? ''} ${node.attr('id') ?? ''}`;
+    if (UNLIKELY_CANDIDATES.test(hint) && !MAYBE_CANDIDATE.test(hint) && !isKept(node)) {
+      node.remove();
+    }
+  });
+
+  const scores = new Map<Element, number>();
+  const initialize = (element: Element): void => {
+    if (!scores.has(element)) {
+      scores.set(element, tagWeight(element.tagName) + classWeight(doc(element)));
+    }
+  };
+
+  body.find(SCORED_TAGS).each((_, element) => {
+    const text = innerText(doc(element));
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    const commas = text.split(',').length - 1;
+    const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+    const parent = element.parent?.type === 'tag' ? element.parent as Element : null;
+    const grandparent = parent?.parent?.type === 'tag' ? parent.parent as Element : null;
+
+    if (parent) {
+      initialize(parent);
+      scores.set(parent, scores.get(parent)! + score);
+    }
+    if (grandparent) {
+      initialize(grandparent);
+      scores.set(grandparent, scores.get(grandparent)! + score / 2);
+    }
+  });
+
+  let topElement: Element | null = null;
+  let topScore = 0;
+  for (const [element, score] of Array.from(scores)) {
+    const adjusted = score * (1 - linkDensity(doc(element)));
+    scores.set(element, adjusted);
+    if (adjusted > topScore) {
+      topElement = element;
+      topScore = adjusted;
+    }
+  }
+
+  if (!topElement) return null;
+
+  // Pull in neighbouring blocks that belong to the same article
+  const threshold = Math.max(MIN_SIBLING_SCORE, topScore * 0.2);
+  const classes = doc(topElement).attr('class') ?? '';
+  const parts: string[] = [];
+
+  const siblings = topElement.parent ? doc(topElement.parent).children().toArray() : [topElement];
+  siblings.forEach(sibling => {
+    if (sibling === topElement) {
+      parts.push(doc.html(sibling));
+      return;
+    }
+
+    const node = doc(sibling);
+    let bonus = 0;
+    if (classes && node.attr('class') === classes) bonus += topScore * 0.2;
+
+    if ((scores.get(sibling) ?? 0) + bonus >= threshold || isProse(sibling, node)) {
+      parts.push(doc.html(sibling));
+    }
+  });
+
+  return parts.join('\n');
+}
+
+// An element is kept if it matches a keep selector, contains one, or sits inside one
+export function matchesKeep(node: Cheerio<AnyNode>, keep: string): boolean {
+  return node.is(keep) || node.find(keep).length > 0 || node.closest(keep).length > 0;
+}
+
+function tagWeight(tagName: string): number {
+  switch (tagName.toLowerCase()) {
+    case 'article':
+      return 10;
+    case 'div':
+    case 'main':
+    case 'section':
+      return 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return 3;
+    case 'address':
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+    case 'form':
+      return -3;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+function classWeight(node: Cheerio<Element>): number {
+  let weight = 0;
+  for (const hint of [node.attr('class'), node.attr('id')]) {
+    if (!hint) continue;
+    if (NEGATIVE.test(hint)) weight -= 25;
+    if (POSITIVE.test(hint)) weight += 25;
+  }
+  return weight;
+}
+
+// Share of an element's text that sits inside links; navigation blocks score close to 1
+function linkDensity(node: Cheerio<Element>): number {
+  const textLength = innerText(node).length;
+  if (textLength === 0) return 0;
+
+  return Math.min(innerText(node.find('a')).length / textLength, 1);
+}
+
+// A stray paragraph next to the main block: long enough, few links, or a complete sentence
+function isProse(element: Element, node: Cheerio<Element>): boolean {
+  if (element.tagName.toLowerCase() !== 'p') return false;
+
+  const text = innerText(node);
+  const density = linkDensity(node);
+  return (text.length > 80 && density < 0.25)
+    || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+}
+
+function innerText(node: Cheerio<Element>): string {
+  return node.text().replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,155 @@
+export const CRAWLER_USER_AGENT = 'WebCrawler2MD';
+
+// Sites change their rules, and scheduled re-crawls run for as long as the server does
+const ROBOTS_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsRules {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+export class RobotsService {
+  private cache: Map<string, { rules: Promise<RobotsRules>; fetchedAt: number }>;
+
+  constructor() {
+    this.cache = new Map();
+  }
+
+  async isAllowed(url: string): Promise<boolean> {
+    const parsed = new URL(url);
+    const rules = await this.getRules(parsed.origin);
+    const group = this.findGroup(rules);
+    if (!group) return true;
+
+    const target = parsed.pathname + parsed.search;
+    let best: RobotsRule | undefined;
+    for (const rule of group.rules) {
+      if (!rule.regex.test(target)) continue;
+      // Longest matching path wins; on a tie, Allow beats Disallow
+      if (!best || rule.path.length > best.path.length ||
+          (rule.path.length === best.path.length && rule.allow && !best.allow)) {
+        best = rule;
+      }
+    }
+
+    return best ? best.allow : true;
+  }
+
+  async getCrawlDelay(url: string): Promise<number | undefined> {
+    const rules = await this.getRules(new URL(url).origin);
+    return this.findGroup(rules)?.crawlDelay;
+  }
+
+  async getSitemaps(url: string): Promise<string[]> {
+    const rules = await this.getRules(new URL(url).origin);
+    return rules.sitemaps;
+  }
+
+  private getRules(origin: string): Promise<RobotsRules> {
+    const now = Date.now();
+    let cached = this.cache.get(origin);
+    if (!cached || now - cached.fetchedAt > ROBOTS_CACHE_TTL) {
+      cached = { rules: this.fetchRules(origin), fetchedAt: now };
+      this.cache.set(origin, cached);
+    }
+    return cached.rules;
+  }
+
+  private async fetchRules(origin: string): Promise<RobotsRules> {
+    const robotsUrl = `${origin}/robots.txt`;
+    try {
+      const response = await fetch(robotsUrl, {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT },
+        signal: AbortSignal.timeout(10000),
+      });
+
+      // A missing robots.txt means everything is allowed
+      if (!response.ok) {
+        console.log(`No robots.txt at ${robotsUrl} (${response.status})`);
+        return { groups: [], sitemaps: [] };
+      }
+
+      return parseRobotsTxt(await response.text());
+    } catch (error) {
+      console.warn(`Failed to fetch ${robotsUrl}:`, error);
+      return { groups: [], sitemaps: [] };
+    }
+  }
+
+  private findGroup(rules: RobotsRules): RobotsGroup | undefined {
+    const agent = CRAWLER_USER_AGENT.toLowerCase();
+    return rules.groups.find(group => group.userAgents.includes(agent))
+      || rules.groups.find(group => group.userAgents.includes('*'));
+  }
+}
+
+export function parseRobotsTxt(text: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share the same group
+      if (!current || !lastWasAgent) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything and adds no rule
+      if (!value) continue;
+      current.rules.push({ allow: field === 'allow', path: value, regex: patternToRegex(value) });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.crawlDelay = delay;
+      }
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+export const robotsService = new RobotsService();
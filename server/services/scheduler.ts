@@ -0,0 +1,163 @@
+import { Cron } from 'croner';
+import { storage } from '../storage';
+import { jobQueue } from './job-queue';
+import { crawlEvents } from './events';
+import { InvalidScheduleError } from './errors';
+import { checkSelectors } from './selectors';
+import { insertCrawlJobSchema, type CrawlSchedule, type CrawlScheduleRun, type InsertCrawlSchedule } from '@shared/schema';
+
+// Due schedules are picked up within this long of their run time
+const TICK_INTERVAL_MS = 30 * 1000;
+
+const ACTIVE_JOB_STATUSES = ['pending', 'running', 'paused'];
+
+export class SchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  // Runs that came due while the server was down are made up once, not once per missed slot
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.tick();
+  }
+
+  // Throws InvalidScheduleError for an unknown timezone or a malformed expression
+  nextRunAt(cronExpression: string, timezone: string, from: Date = new Date()): Date | null {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new InvalidScheduleError(`Unknown timezone: ${timezone}`);
+    }
+
+    try {
+      return new Cron(cronExpression, { timezone, paused: true }).nextRun(from);
+    } catch (error) {
+      throw new InvalidScheduleError(`Invalid cron expression: ${error instanceof Error ? error.message : cronExpression}`);
+    }
+  }
+
+  async createSchedule(input: InsertCrawlSchedule): Promise<CrawlSchedule> {
+    await this.requireConfig(input.configId);
+    const timezone = input.timezone ?? 'UTC';
+    const enabled = input.enabled ?? true;
+    const nextRunAt = this.nextRunAt(input.cronExpression, timezone);
+
+    return storage.createCrawlSchedule({
+      ...input,
+      timezone,
+      enabled,
+      nextRunAt: enabled ? nextRunAt : null,
+    });
+  }
+
+  async updateSchedule(id: number, updates: Partial<InsertCrawlSchedule>): Promise<CrawlSchedule | undefined> {
+    const schedule = await storage.getCrawlSchedule(id);
+    if (!schedule) return undefined;
+
+    if (updates.configId !== undefined) {
+      await this.requireConfig(updates.configId);
+    }
+
+    const merged = { ...schedule, ...updates };
+    const nextRunAt = this.nextRunAt(merged.cronExpression, merged.timezone);
+    return storage.updateCrawlSchedule(id, { ...updates, nextRunAt: merged.enabled ? nextRunAt : null });
+  }
+
+  private async requireConfig(configId: number): Promise<void> {
+    const config = await storage.getCrawlConfig(configId);
+    if (!config) {
+      throw new InvalidScheduleError(`Configuration ${configId} not found`);
+    }
+  }
+
+  private async tick(): Promise<void> {
+    // A slow tick (many schedules, slow storage) must not overlap the next one
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = new Date();
+      const schedules = await storage.getAllCrawlSchedules();
+      const due = schedules.filter(schedule =>
+        schedule.enabled && schedule.nextRunAt && schedule.nextRunAt <= now
+      );
+
+      for (const schedule of due) {
+        try {
+          await this.runSchedule(schedule, now);
+        } catch (error) {
+          console.error(`Scheduled run of schedule ${schedule.id} failed:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to check crawl schedules:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runSchedule(schedule: CrawlSchedule, now: Date): Promise<CrawlScheduleRun> {
+    const scheduledFor = schedule.nextRunAt ?? now;
+    let nextRunAt: Date | null = null;
+    try {
+      nextRunAt = this.nextRunAt(schedule.cronExpression, schedule.timezone, now);
+    } catch (error) {
+      console.error(`Schedule ${schedule.id} can no longer be evaluated:`, error);
+    }
+
+    const run = await this.startRun(schedule, scheduledFor);
+    await storage.updateCrawlSchedule(schedule.id, {
+      nextRunAt,
+      lastRunAt: now,
+      ...(run.jobId !== null ? { lastJobId: run.jobId } : {}),
+    });
+    console.log(`Schedule ${schedule.id} (${schedule.name}): ${run.outcome}${run.message ? ` - ${run.message}` : ''}`);
+    return run;
+  }
+
+  private async startRun(schedule: CrawlSchedule, scheduledFor: Date): Promise<CrawlScheduleRun> {
+    const runBase = { scheduleId: schedule.id, scheduledFor };
+
+    if (schedule.lastJobId !== null) {
+      const lastJob = await storage.getCrawlJob(schedule.lastJobId);
+      if (lastJob && ACTIVE_JOB_STATUSES.includes(lastJob.status)) {
+        return storage.createCrawlScheduleRun({
+          ...runBase,
+          outcome: 'skipped',
+          message: `Job ${lastJob.id} from the previous run is still ${lastJob.status}`,
+        });
+      }
+    }
+
+    const config = await storage.getCrawlConfig(schedule.configId);
+    if (!config) {
+      return storage.createCrawlScheduleRun({
+        ...runBase,
+        outcome: 'failed',
+        message: `Configuration ${schedule.configId} no longer exists`,
+      });
+    }
+
+    const parsed = insertCrawlJobSchema.superRefine(checkSelectors).safeParse({
+      ...config.settings,
+      configId: config.id,
+      configVersion: config.version,
+    });
+    if (!parsed.success) {
+      return storage.createCrawlScheduleRun({
+        ...runBase,
+        outcome: 'failed',
+        message: `Configuration ${config.name} is no longer valid`,
+      });
+    }
+
+    const job = await storage.createCrawlJob(parsed.data);
+    crawlEvents.publish({ type: 'job', job });
+    jobQueue.enqueue(job);
+
+    return storage.createCrawlScheduleRun({ ...runBase, outcome: 'started', jobId: job.id });
+  }
+}
+
+export const schedulerService = new SchedulerService();
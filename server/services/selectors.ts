@@ -0,0 +1,39 @@
+import * as cheerio from 'cheerio';
+import { z } from 'zod';
+
+interface SelectorSettings {
+  contentSelector?: string | null;
+  titleSelector?: string | null;
+  removeSelectors?: string[];
+  keepSelectors?: string[];
+}
+
+const emptyDocument = cheerio.load('');
+
+/**
+ * zod refinement that rejects custom selectors cheerio can't parse. A bad
+ * selector would make extraction throw on every page of a crawl, so jobs and
+ * saved configurations are checked before they are stored. `path` points the
+ * issues at nested settings, such as a configuration's.
+ */
+export function checkSelectors(settings: SelectorSettings, ctx: z.RefinementCtx, path: (string | number)[] = []): void {
+  const selectors: [(string | number)[], string | null | undefined][] = [
+    [['contentSelector'], settings.contentSelector],
+    [['titleSelector'], settings.titleSelector],
+    ...(settings.removeSelectors ?? []).map((selector, index) => [['removeSelectors', index], selector] as [(string | number)[], string]),
+    ...(settings.keepSelectors ?? []).map((selector, index) => [['keepSelectors', index], selector] as [(string | number)[], string]),
+  ];
+
+  for (const [field, selector] of selectors) {
+    if (!selector) continue;
+    try {
+      emptyDocument(selector);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, ...field],
+        message: `Invalid selector "${selector}": ${error instanceof Error ? error.message : 'could not be parsed'}`,
+      });
+    }
+  }
+}
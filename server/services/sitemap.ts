@@ -0,0 +1,77 @@
+import * as cheerio from 'cheerio';
+import { gunzipSync } from 'zlib';
+import { robotsService, CRAWLER_USER_AGENT } from './robots';
+
+const MAX_SITEMAPS = 50;
+const MAX_URLS = 50000;
+
+export interface SitemapEntry {
+  url: string;
+  lastmod: Date | null;
+}
+
+export class SitemapService {
+  async discover(baseUrl: string): Promise<SitemapEntry[]> {
+    const origin = new URL(baseUrl).origin;
+    const queue = [`${origin}/sitemap.xml`, ...(await robotsService.getSitemaps(baseUrl))];
+    const seen = new Set<string>();
+    const entries = new Map<string, SitemapEntry>();
+
+    while (queue.length > 0 && seen.size < MAX_SITEMAPS && entries.size < MAX_URLS) {
+      const sitemapUrl = queue.shift()!;
+      if (seen.has(sitemapUrl)) continue;
+      seen.add(sitemapUrl);
+
+      const xml = await this.fetchSitemap(sitemapUrl);
+      if (!xml) continue;
+
+      const $ = cheerio.load(xml, { xml: true });
+
+      // Sitemap indexes point at further sitemaps
+      $('sitemapindex > sitemap > loc').each((_, element) => {
+        const loc = $(element).text().trim();
+        if (loc) queue.push(loc);
+      });
+
+      $('urlset > url').each((_, element) => {
+        const loc = $(element).find('loc').first().text().trim();
+        if (!loc || entries.has(loc) || entries.size >= MAX_URLS) return;
+
+        const lastmodText = $(element).find('lastmod').first().text().trim();
+        const lastmod = lastmodText ? new Date(lastmodText) : null;
+        entries.set(loc, {
+          url: loc,
+          lastmod: lastmod && !isNaN(lastmod.getTime()) ? lastmod : null,
+        });
+      });
+    }
+
+    console.log(`Found ${entries.size} URLs in ${seen.size} sitemaps for ${origin}`);
+    return Array.from(entries.values());
+  }
+
+  private async fetchSitemap(url: string): Promise<string | null> {
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT },
+        signal: AbortSignal.timeout(30000),
+      });
+      if (!response.ok) {
+        console.log(`Sitemap ${url} returned ${response.status}`);
+        return null;
+      }
+
+      const buffer = Buffer.from(await response.arrayBuffer());
+      // Gzip magic bytes; servers often send .xml.gz without Content-Encoding
+      if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+        return gunzipSync(buffer).toString('utf8');
+      }
+      return buffer.toString('utf8');
+    } catch (error) {
+      console.warn(`Failed to fetch sitemap ${url}:`, error);
+      return null;
+    }
+  }
+}
+
+export const sitemapService = new SitemapService();
@@ -0,0 +1,64 @@
+import type { CrawlJob } from '@shared/schema';
+import { normalizeUrl } from './url-normalizer';
+
+/**
+ * The job's base URL in the same normalized form as discovered links. Discovery
+ * starts from it and scopes links to it, so the start page is neither missed
+ * nor fetched twice under a second spelling.
+ */
+export function startUrl(job: Pick<CrawlJob, 'baseUrl' | 'urlNormalization'>): string {
+  return normalizeUrl(job.baseUrl, job.urlNormalization);
+}
+
+/**
+ * Decides what discovery does with a URL. Every URL must sit under the job's
+ * base URL, match an include pattern when any are set, and match no exclude
+ * pattern. In-scope URLs are followed when they match a follow pattern (or
+ * when none are set), and collected when they match one of regexPatterns.
+ */
+export class UrlFilter {
+  private baseUrl: string;
+  // A base URL ending in a slash covers only that folder, even once the slash is stripped
+  private folderScope: boolean;
+  private collectPatterns: RegExp[];
+  private collectPatternSources: string[];
+  private includePatterns: RegExp[];
+  private excludePatterns: RegExp[];
+  private followPatterns: RegExp[];
+
+  constructor(job: Pick<CrawlJob, 'baseUrl' | 'regexPatterns' | 'includePatterns' | 'excludePatterns' | 'followPatterns' | 'urlNormalization'>) {
+    this.baseUrl = startUrl(job);
+    this.folderScope = new URL(job.baseUrl).pathname.endsWith('/');
+    this.collectPatterns = job.regexPatterns.map(pattern => new RegExp(pattern));
+    this.collectPatternSources = job.regexPatterns;
+    this.includePatterns = (job.includePatterns ?? []).map(pattern => new RegExp(pattern));
+    this.excludePatterns = (job.excludePatterns ?? []).map(pattern => new RegExp(pattern));
+    this.followPatterns = (job.followPatterns ?? []).map(pattern => new RegExp(pattern));
+  }
+
+  inScope(url: string): boolean {
+    if (!this.underBaseUrl(url)) return false;
+    if (this.includePatterns.length > 0 && !this.includePatterns.some(pattern => pattern.test(url))) return false;
+    return !this.excludePatterns.some(pattern => pattern.test(url));
+  }
+
+  private underBaseUrl(url: string): boolean {
+    if (!this.folderScope || url === this.baseUrl) return url.startsWith(this.baseUrl);
+    return url.startsWith(this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`);
+  }
+
+  shouldFollow(url: string): boolean {
+    if (!this.inScope(url)) return false;
+    return this.followPatterns.length === 0 || this.followPatterns.some(pattern => pattern.test(url));
+  }
+
+  shouldCollect(url: string): boolean {
+    return this.inScope(url) && this.collectPatterns.some(pattern => pattern.test(url));
+  }
+
+  // The first of regexPatterns that matches the URL, as the user wrote it
+  matchedPattern(url: string): string | null {
+    const index = this.collectPatterns.findIndex(pattern => pattern.test(url));
+    return index === -1 ? null : this.collectPatternSources[index];
+  }
+}
@@ -0,0 +1,68 @@
+import type { UrlNormalizationOptions } from '@shared/schema';
+
+export const DEFAULT_URL_NORMALIZATION: UrlNormalizationOptions = {
+  stripFragment: true,
+  stripTrackingParams: true,
+  sortQuery: true,
+  trailingSlash: 'strip',
+  // Most servers treat paths as case-sensitive, so folding case can turn real pages into 404s
+  lowercasePath: false,
+};
+
+const TRACKING_PARAMS = new Set([
+  'gclid', 'dclid', 'fbclid', 'msclkid', 'yclid', 'igshid',
+  'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi',
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * Canonical form of a URL so that `page#section`, `page/`, `page?utm_source=x`
+ * and, with lowercasePath, `PAGE` compare equal. Scheme and host are always
+ * lowercased by URL itself.
+ */
+export function normalizeUrl(url: string, options: UrlNormalizationOptions | null = null): string {
+  const opts = options ?? DEFAULT_URL_NORMALIZATION;
+  const parsed = new URL(url);
+
+  if (opts.stripFragment) {
+    parsed.hash = '';
+  }
+
+  if (opts.stripTrackingParams) {
+    for (const name of Array.from(parsed.searchParams.keys())) {
+      if (isTrackingParam(name)) {
+        parsed.searchParams.delete(name);
+      }
+    }
+  }
+
+  if (opts.sortQuery) {
+    parsed.searchParams.sort();
+  }
+
+  let pathname = parsed.pathname;
+  if (opts.lowercasePath) {
+    pathname = pathname.toLowerCase();
+  }
+
+  // The root path always keeps its slash
+  if (pathname !== '/') {
+    if (opts.trailingSlash === 'strip') {
+      pathname = pathname.replace(/\/+$/, '') || '/';
+    } else if (opts.trailingSlash === 'add' && !pathname.endsWith('/') && !/\.[a-z0-9]+$/i.test(pathname)) {
+      pathname += '/';
+    }
+  }
+  parsed.pathname = pathname;
+
+  // An emptied query string would otherwise leave a dangling "?"
+  if (!parsed.searchParams.toString()) {
+    parsed.search = '';
+  }
+
+  return parsed.href;
+}
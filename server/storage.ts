@@ -1,6 +1,8 @@
-import { users, crawlJobs, crawlResults, type User, type InsertUser, type CrawlJob, type InsertCrawlJob, type CrawlResult, type InsertCrawlResult } from "@shared/schema";
+import { users, crawlJobs, crawlResults, crawlAssets, crawlConfigs, crawlSchedules, crawlScheduleRuns, type User, type InsertUser, type CrawlJob, type InsertCrawlJob, type CrawlResult, type InsertCrawlResult, type CrawlAsset, type InsertCrawlAsset, type CrawlConfig, type InsertCrawlConfig, type CrawlSchedule, type InsertCrawlSchedule, type CrawlScheduleRun, type InsertCrawlScheduleRun } from "@shared/schema";
 import { writeFileSync, readFileSync, existsSync } from "fs";
 import { join } from "path";
+import { eq, desc, sql, inArray } from "drizzle-orm";
+import { createDb, type Database } from "./db";
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
@@ -15,24 +17,124 @@ export interface IStorage {
   createCrawlResult(result: InsertCrawlResult): Promise<CrawlResult>;
   getCrawlResults(jobId: number): Promise<CrawlResult[]>;
   getCrawlResult(id: number): Promise<CrawlResult | undefined>;
+  deleteCrawlResults(ids: number[]): Promise<void>;
+
+  createCrawlAsset(asset: InsertCrawlAsset): Promise<CrawlAsset>;
+  getCrawlAssets(jobId: number): Promise<CrawlAsset[]>;
+
+  createCrawlConfig(config: InsertCrawlConfig): Promise<CrawlConfig>;
+  getCrawlConfig(id: number): Promise<CrawlConfig | undefined>;
+  getAllCrawlConfigs(): Promise<CrawlConfig[]>;
+  // Bumps the version whenever anything changes
+  updateCrawlConfig(id: number, updates: Partial<InsertCrawlConfig>): Promise<CrawlConfig | undefined>;
+  deleteCrawlConfig(id: number): Promise<boolean>;
+
+  createCrawlSchedule(schedule: InsertCrawlSchedule & Pick<CrawlSchedule, "nextRunAt">): Promise<CrawlSchedule>;
+  getCrawlSchedule(id: number): Promise<CrawlSchedule | undefined>;
+  getAllCrawlSchedules(): Promise<CrawlSchedule[]>;
+  updateCrawlSchedule(id: number, updates: Partial<CrawlSchedule>): Promise<CrawlSchedule | undefined>;
+  // Also removes the schedule's run history
+  deleteCrawlSchedule(id: number): Promise<boolean>;
+
+  createCrawlScheduleRun(run: InsertCrawlScheduleRun): Promise<CrawlScheduleRun>;
+  // Newest first
+  getCrawlScheduleRuns(scheduleId: number): Promise<CrawlScheduleRun[]>;
+}
+
+// Column defaults for everything an insert may leave out. Jobs and results
+// loaded from storage-data.json go through these too, since they may have been
+// saved before a column existed.
+function withJobDefaults(job: InsertCrawlJob) {
+  return {
+    ...job,
+    includePatterns: job.includePatterns ?? [],
+    excludePatterns: job.excludePatterns ?? [],
+    followPatterns: job.followPatterns ?? [],
+    maxDepth: job.maxDepth ?? 2,
+    requestDelay: job.requestDelay ?? 1000,
+    maxConcurrent: job.maxConcurrent ?? 2,
+    removeNavigation: job.removeNavigation ?? true,
+    cleanFormatting: job.cleanFormatting ?? true,
+    includeImages: job.includeImages ?? false,
+    respectRobotsTxt: job.respectRobotsTxt ?? true,
+    discoveryMode: job.discoveryMode ?? "links",
+    renderMode: job.renderMode ?? "browser",
+    extractionStrategy: job.extractionStrategy ?? "selectors",
+    contentSelector: job.contentSelector ?? null,
+    titleSelector: job.titleSelector ?? null,
+    removeSelectors: job.removeSelectors ?? [],
+    keepSelectors: job.keepSelectors ?? [],
+    urlNormalization: job.urlNormalization ?? null,
+    maxAttempts: job.maxAttempts ?? 3,
+    retryBackoffMs: job.retryBackoffMs ?? 1000,
+    retryOn: job.retryOn ?? ["timeout", "rate-limit", "server-error", "navigation"],
+    previousJobId: job.previousJobId ?? null,
+    configId: job.configId ?? null,
+    configVersion: job.configVersion ?? null,
+    assetCapture: job.assetCapture ?? "none",
+    maxAssetBytes: job.maxAssetBytes ?? 10 * 1024 * 1024,
+    maxJobAssetBytes: job.maxJobAssetBytes ?? 200 * 1024 * 1024,
+    frontMatter: job.frontMatter ?? false,
+    priority: job.priority ?? 0,
+  };
+}
+
+function withResultDefaults(result: InsertCrawlResult) {
+  return {
+    ...result,
+    title: result.title ?? null,
+    content: result.content ?? null,
+    markdownContent: result.markdownContent ?? null,
+    fileSize: result.fileSize ?? null,
+    errorMessage: result.errorMessage ?? null,
+    errorCategory: result.errorCategory ?? null,
+    attempts: result.attempts ?? null,
+    canonicalUrl: result.canonicalUrl ?? null,
+    contentHash: result.contentHash ?? null,
+    description: result.description ?? null,
+    language: result.language ?? null,
+    author: result.author ?? null,
+    publishedAt: result.publishedAt ?? null,
+    modifiedAt: result.modifiedAt ?? null,
+    lastModified: result.lastModified ?? null,
+    etag: result.etag ?? null,
+    httpLastModified: result.httpLastModified ?? null,
+    changeStatus: result.changeStatus ?? null,
+  };
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private crawlJobs: Map<number, CrawlJob>;
   private crawlResults: Map<number, CrawlResult>;
+  private crawlAssets: Map<number, CrawlAsset>;
+  private crawlConfigs: Map<number, CrawlConfig>;
+  private crawlSchedules: Map<number, CrawlSchedule>;
+  private crawlScheduleRuns: Map<number, CrawlScheduleRun>;
   private currentUserId: number;
   private currentJobId: number;
   private currentResultId: number;
+  private currentAssetId: number;
+  private currentConfigId: number;
+  private currentScheduleId: number;
+  private currentScheduleRunId: number;
   private readonly dataFile = join(process.cwd(), 'storage-data.json');
 
   constructor() {
     this.users = new Map();
     this.crawlJobs = new Map();
     this.crawlResults = new Map();
+    this.crawlAssets = new Map();
+    this.crawlConfigs = new Map();
+    this.crawlSchedules = new Map();
+    this.crawlScheduleRuns = new Map();
     this.currentUserId = 1;
     this.currentJobId = 1;
     this.currentResultId = 1;
+    this.currentAssetId = 1;
+    this.currentConfigId = 1;
+    this.currentScheduleId = 1;
+    this.currentScheduleRunId = 1;
     
     // Load persisted data on startup
     this.loadData();
@@ -44,9 +146,17 @@ export class MemStorage implements IStorage {
         users: Array.from(this.users.entries()),
         crawlJobs: Array.from(this.crawlJobs.entries()),
         crawlResults: Array.from(this.crawlResults.entries()),
+        crawlAssets: Array.from(this.crawlAssets.entries()),
+        crawlConfigs: Array.from(this.crawlConfigs.entries()),
+        crawlSchedules: Array.from(this.crawlSchedules.entries()),
+        crawlScheduleRuns: Array.from(this.crawlScheduleRuns.entries()),
         currentUserId: this.currentUserId,
         currentJobId: this.currentJobId,
         currentResultId: this.currentResultId,
+        currentAssetId: this.currentAssetId,
+        currentConfigId: this.currentConfigId,
+        currentScheduleId: this.currentScheduleId,
+        currentScheduleRunId: this.currentScheduleRunId,
       };
       writeFileSync(this.dataFile, JSON.stringify(data, null, 2));
     } catch (error) {
@@ -61,15 +171,51 @@ export class MemStorage implements IStorage {
         this.users = new Map(data.users || []);
         this.crawlJobs = new Map(data.crawlJobs?.map(([id, job]: [number, any]) => [
           id, 
-          { ...job, createdAt: new Date(job.createdAt) }
+          {
+            ...withJobDefaults(job),
+            effectiveRate: job.effectiveRate ?? null,
+            checkpoint: job.checkpoint ?? null,
+            createdAt: new Date(job.createdAt),
+          }
         ]) || []);
         this.crawlResults = new Map(data.crawlResults?.map(([id, result]: [number, any]) => [
           id, 
-          { ...result, createdAt: new Date(result.createdAt) }
+          {
+            ...withResultDefaults(result),
+            lastModified: result.lastModified ? new Date(result.lastModified) : null,
+            publishedAt: result.publishedAt ? new Date(result.publishedAt) : null,
+            modifiedAt: result.modifiedAt ? new Date(result.modifiedAt) : null,
+            createdAt: new Date(result.createdAt),
+          }
+        ]) || []);
+        this.crawlAssets = new Map(data.crawlAssets?.map(([id, asset]: [number, any]) => [
+          id,
+          { ...asset, createdAt: new Date(asset.createdAt) }
         ]) || []);
         this.currentUserId = data.currentUserId || 1;
         this.currentJobId = data.currentJobId || 1;
         this.currentResultId = data.currentResultId || 1;
+        this.crawlConfigs = new Map(data.crawlConfigs?.map(([id, config]: [number, any]) => [
+          id,
+          { ...config, createdAt: new Date(config.createdAt), updatedAt: new Date(config.updatedAt) }
+        ]) || []);
+        this.crawlSchedules = new Map(data.crawlSchedules?.map(([id, schedule]: [number, any]) => [
+          id,
+          {
+            ...schedule,
+            nextRunAt: schedule.nextRunAt ? new Date(schedule.nextRunAt) : null,
+            lastRunAt: schedule.lastRunAt ? new Date(schedule.lastRunAt) : null,
+            createdAt: new Date(schedule.createdAt),
+          }
+        ]) || []);
+        this.crawlScheduleRuns = new Map(data.crawlScheduleRuns?.map(([id, run]: [number, any]) => [
+          id,
+          { ...run, scheduledFor: new Date(run.scheduledFor), createdAt: new Date(run.createdAt) }
+        ]) || []);
+        this.currentAssetId = data.currentAssetId || 1;
+        this.currentConfigId = data.currentConfigId || 1;
+        this.currentScheduleId = data.currentScheduleId || 1;
+        this.currentScheduleRunId = data.currentScheduleRunId || 1;
         console.log(`Loaded ${this.crawlJobs.size} jobs and ${this.crawlResults.size} results from storage`);
       }
     } catch (error) {
@@ -98,11 +244,13 @@ export class MemStorage implements IStorage {
   async createCrawlJob(insertJob: InsertCrawlJob): Promise<CrawlJob> {
     const id = this.currentJobId++;
     const job: CrawlJob = {
-      ...insertJob,
+      ...withJobDefaults(insertJob),
       id,
       status: "pending",
       totalPages: 0,
       processedPages: 0,
+      effectiveRate: null,
+      checkpoint: null,
       createdAt: new Date(),
     };
     this.crawlJobs.set(id, job);
@@ -133,7 +281,7 @@ export class MemStorage implements IStorage {
   async createCrawlResult(insertResult: InsertCrawlResult): Promise<CrawlResult> {
     const id = this.currentResultId++;
     const result: CrawlResult = {
-      ...insertResult,
+      ...withResultDefaults(insertResult),
       id,
       createdAt: new Date(),
     };
@@ -151,6 +299,289 @@ export class MemStorage implements IStorage {
   async getCrawlResult(id: number): Promise<CrawlResult | undefined> {
     return this.crawlResults.get(id);
   }
+
+  async deleteCrawlResults(ids: number[]): Promise<void> {
+    ids.forEach(id => this.crawlResults.delete(id));
+    this.saveData();
+  }
+
+  async createCrawlAsset(insertAsset: InsertCrawlAsset): Promise<CrawlAsset> {
+    const id = this.currentAssetId++;
+    const asset: CrawlAsset = {
+      ...insertAsset,
+      contentType: insertAsset.contentType ?? null,
+      id,
+      createdAt: new Date(),
+    };
+    this.crawlAssets.set(id, asset);
+    this.saveData();
+    return asset;
+  }
+
+  async getCrawlAssets(jobId: number): Promise<CrawlAsset[]> {
+    return Array.from(this.crawlAssets.values()).filter(asset => asset.jobId === jobId);
+  }
+
+  async createCrawlConfig(insertConfig: InsertCrawlConfig): Promise<CrawlConfig> {
+    const id = this.currentConfigId++;
+    const now = new Date();
+    const config: CrawlConfig = {
+      ...insertConfig,
+      id,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.crawlConfigs.set(id, config);
+    this.saveData();
+    return config;
+  }
+
+  async getCrawlConfig(id: number): Promise<CrawlConfig | undefined> {
+    return this.crawlConfigs.get(id);
+  }
+
+  async getAllCrawlConfigs(): Promise<CrawlConfig[]> {
+    return Array.from(this.crawlConfigs.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateCrawlConfig(id: number, updates: Partial<InsertCrawlConfig>): Promise<CrawlConfig | undefined> {
+    const config = this.crawlConfigs.get(id);
+    if (!config) return undefined;
+
+    const updatedConfig = { ...config, ...updates, version: config.version + 1, updatedAt: new Date() };
+    this.crawlConfigs.set(id, updatedConfig);
+    this.saveData();
+    return updatedConfig;
+  }
+
+  async deleteCrawlConfig(id: number): Promise<boolean> {
+    const deleted = this.crawlConfigs.delete(id);
+    if (deleted) this.saveData();
+    return deleted;
+  }
+
+  async createCrawlSchedule(insertSchedule: InsertCrawlSchedule & Pick<CrawlSchedule, "nextRunAt">): Promise<CrawlSchedule> {
+    const id = this.currentScheduleId++;
+    const schedule: CrawlSchedule = {
+      ...insertSchedule,
+      timezone: insertSchedule.timezone ?? "UTC",
+      enabled: insertSchedule.enabled ?? true,
+      id,
+      lastRunAt: null,
+      lastJobId: null,
+      createdAt: new Date(),
+    };
+    this.crawlSchedules.set(id, schedule);
+    this.saveData();
+    return schedule;
+  }
+
+  async getCrawlSchedule(id: number): Promise<CrawlSchedule | undefined> {
+    return this.crawlSchedules.get(id);
+  }
+
+  async getAllCrawlSchedules(): Promise<CrawlSchedule[]> {
+    return Array.from(this.crawlSchedules.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateCrawlSchedule(id: number, updates: Partial<CrawlSchedule>): Promise<CrawlSchedule | undefined> {
+    const schedule = this.crawlSchedules.get(id);
+    if (!schedule) return undefined;
+
+    const updatedSchedule = { ...schedule, ...updates, id };
+    this.crawlSchedules.set(id, updatedSchedule);
+    this.saveData();
+    return updatedSchedule;
+  }
+
+  async deleteCrawlSchedule(id: number): Promise<boolean> {
+    const deleted = this.crawlSchedules.delete(id);
+    if (deleted) {
+      Array.from(this.crawlScheduleRuns.values())
+        .filter(run => run.scheduleId === id)
+        .forEach(run => this.crawlScheduleRuns.delete(run.id));
+      this.saveData();
+    }
+    return deleted;
+  }
+
+  async createCrawlScheduleRun(insertRun: InsertCrawlScheduleRun): Promise<CrawlScheduleRun> {
+    const id = this.currentScheduleRunId++;
+    const run: CrawlScheduleRun = {
+      ...insertRun,
+      jobId: insertRun.jobId ?? null,
+      message: insertRun.message ?? null,
+      id,
+      createdAt: new Date(),
+    };
+    this.crawlScheduleRuns.set(id, run);
+    this.saveData();
+    return run;
+  }
+
+  async getCrawlScheduleRuns(scheduleId: number): Promise<CrawlScheduleRun[]> {
+    return Array.from(this.crawlScheduleRuns.values())
+      .filter(run => run.scheduleId === scheduleId)
+      .sort((a, b) => b.scheduledFor.getTime() - a.scheduledFor.getTime());
+  }
+}
+
+export class DbStorage implements IStorage {
+  private db: Database;
+
+  constructor(db: Database = createDb()) {
+    this.db = db;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createCrawlJob(insertJob: InsertCrawlJob): Promise<CrawlJob> {
+    const [job] = await this.db.insert(crawlJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getCrawlJob(id: number): Promise<CrawlJob | undefined> {
+    const [job] = await this.db.select().from(crawlJobs).where(eq(crawlJobs.id, id));
+    return job;
+  }
+
+  async getAllCrawlJobs(): Promise<CrawlJob[]> {
+    return this.db.select().from(crawlJobs).orderBy(desc(crawlJobs.createdAt));
+  }
+
+  async updateCrawlJob(id: number, updates: Partial<CrawlJob>): Promise<CrawlJob | undefined> {
+    const { id: _id, ...changes } = updates;
+    if (Object.keys(changes).length === 0) {
+      return this.getCrawlJob(id);
+    }
+
+    const [job] = await this.db.update(crawlJobs).set(changes).where(eq(crawlJobs.id, id)).returning();
+    return job;
+  }
+
+  async createCrawlResult(insertResult: InsertCrawlResult): Promise<CrawlResult> {
+    const [result] = await this.db.insert(crawlResults).values(insertResult).returning();
+    return result;
+  }
+
+  async getCrawlResults(jobId: number): Promise<CrawlResult[]> {
+    return this.db.select().from(crawlResults)
+      .where(eq(crawlResults.jobId, jobId))
+      .orderBy(desc(crawlResults.createdAt), desc(crawlResults.id));
+  }
+
+  async getCrawlResult(id: number): Promise<CrawlResult | undefined> {
+    const [result] = await this.db.select().from(crawlResults).where(eq(crawlResults.id, id));
+    return result;
+  }
+
+  async deleteCrawlResults(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.delete(crawlResults).where(inArray(crawlResults.id, ids));
+  }
+
+  async createCrawlAsset(insertAsset: InsertCrawlAsset): Promise<CrawlAsset> {
+    const [asset] = await this.db.insert(crawlAssets).values(insertAsset).returning();
+    return asset;
+  }
+
+  async getCrawlAssets(jobId: number): Promise<CrawlAsset[]> {
+    return this.db.select().from(crawlAssets).where(eq(crawlAssets.jobId, jobId));
+  }
+
+  async createCrawlConfig(insertConfig: InsertCrawlConfig): Promise<CrawlConfig> {
+    const [config] = await this.db.insert(crawlConfigs).values(insertConfig).returning();
+    return config;
+  }
+
+  async getCrawlConfig(id: number): Promise<CrawlConfig | undefined> {
+    const [config] = await this.db.select().from(crawlConfigs).where(eq(crawlConfigs.id, id));
+    return config;
+  }
+
+  async getAllCrawlConfigs(): Promise<CrawlConfig[]> {
+    return this.db.select().from(crawlConfigs).orderBy(crawlConfigs.name);
+  }
+
+  async updateCrawlConfig(id: number, updates: Partial<InsertCrawlConfig>): Promise<CrawlConfig | undefined> {
+    const [config] = await this.db.update(crawlConfigs)
+      .set({ ...updates, version: sql`${crawlConfigs.version} + 1`, updatedAt: new Date() })
+      .where(eq(crawlConfigs.id, id))
+      .returning();
+    return config;
+  }
+
+  async deleteCrawlConfig(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(crawlConfigs).where(eq(crawlConfigs.id, id)).returning({ id: crawlConfigs.id });
+    return deleted.length > 0;
+  }
+
+  async createCrawlSchedule(insertSchedule: InsertCrawlSchedule & Pick<CrawlSchedule, "nextRunAt">): Promise<CrawlSchedule> {
+    const [schedule] = await this.db.insert(crawlSchedules).values(insertSchedule).returning();
+    return schedule;
+  }
+
+  async getCrawlSchedule(id: number): Promise<CrawlSchedule | undefined> {
+    const [schedule] = await this.db.select().from(crawlSchedules).where(eq(crawlSchedules.id, id));
+    return schedule;
+  }
+
+  async getAllCrawlSchedules(): Promise<CrawlSchedule[]> {
+    return this.db.select().from(crawlSchedules).orderBy(crawlSchedules.name);
+  }
+
+  async updateCrawlSchedule(id: number, updates: Partial<CrawlSchedule>): Promise<CrawlSchedule | undefined> {
+    const { id: _id, ...changes } = updates;
+    if (Object.keys(changes).length === 0) {
+      return this.getCrawlSchedule(id);
+    }
+
+    const [schedule] = await this.db.update(crawlSchedules).set(changes).where(eq(crawlSchedules.id, id)).returning();
+    return schedule;
+  }
+
+  async deleteCrawlSchedule(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(crawlScheduleRuns).where(eq(crawlScheduleRuns.scheduleId, id));
+      const deleted = await tx.delete(crawlSchedules).where(eq(crawlSchedules.id, id)).returning({ id: crawlSchedules.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async createCrawlScheduleRun(insertRun: InsertCrawlScheduleRun): Promise<CrawlScheduleRun> {
+    const [run] = await this.db.insert(crawlScheduleRuns).values(insertRun).returning();
+    return run;
+  }
+
+  async getCrawlScheduleRuns(scheduleId: number): Promise<CrawlScheduleRun[]> {
+    return this.db.select().from(crawlScheduleRuns)
+      .where(eq(crawlScheduleRuns.scheduleId, scheduleId))
+      .orderBy(desc(crawlScheduleRuns.scheduledFor), desc(crawlScheduleRuns.id));
+  }
+}
+
+// STORAGE_BACKEND=postgres stores everything through Drizzle in DATABASE_URL;
+// anything else keeps the in-memory store backed by storage-data.json
+function createStorage(): IStorage {
+  if (process.env.STORAGE_BACKEND === "postgres") {
+    console.log("Using PostgreSQL storage");
+    return new DbStorage();
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,47 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { crawlEvents } from "./services/events";
+import { log } from "./vite";
+
+/**
+ * Streams crawl events to clients connected at /ws. Connecting with
+ * ?jobId=<id> limits the stream to that job's status, results and logs,
+ * plus queue updates.
+ */
+export function setupWebSocket(server: Server) {
+  // noServer so upgrades for other paths (Vite HMR) are left alone
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== "/ws") return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit("connection", ws, req);
+    });
+  });
+
+  wss.on("connection", (ws, req) => {
+    const jobIdParam = new URL(req.url || "/", "http://localhost").searchParams.get("jobId");
+    const jobId = jobIdParam ? parseInt(jobIdParam) : null;
+
+    const unsubscribe = crawlEvents.subscribe((event) => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+
+      // Queue changes move every waiting job, so they go to all clients
+      if (jobId !== null && event.type !== "queue") {
+        const eventJobId = event.type === "job" ? event.job.id
+          : event.type === "result" ? event.result.jobId
+          : event.jobId;
+        if (eventJobId !== jobId) return;
+      }
+
+      ws.send(JSON.stringify(event));
+    });
+
+    ws.on("close", unsubscribe);
+    ws.on("error", (error) => {
+      log(`WebSocket error: ${error.message}`, "ws");
+    });
+  });
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,19 +8,83 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+export interface CrawlFrontierEntry {
+  url: string;
+  depth: number;
+}
+
+// Saved as the crawl runs so an interrupted job can pick up where it stopped
+export interface CrawlCheckpoint {
+  phase: "discovery" | "extraction";
+  frontier: CrawlFrontierEntry[];
+  visited: string[];
+  discovered: CrawlFrontierEntry[];
+  lastModified: Record<string, string | null>;
+}
+
+// How discovered URLs are canonicalized before they are compared or crawled
+export const urlNormalizationSchema = z.object({
+  stripFragment: z.boolean(),
+  stripTrackingParams: z.boolean(),
+  sortQuery: z.boolean(),
+  trailingSlash: z.enum(["strip", "add", "keep"]),
+  lowercasePath: z.boolean(),
+});
+
+export type UrlNormalizationOptions = z.infer<typeof urlNormalizationSchema>;
+
+// Why a page failed; the retry policy names the categories worth another attempt
+export const errorCategories = ["timeout", "rate-limit", "server-error", "client-error", "navigation", "extraction"] as const;
+
+export type ErrorCategory = typeof errorCategories[number];
+
 export const crawlJobs = pgTable("crawl_jobs", {
   id: serial("id").primaryKey(),
   baseUrl: text("base_url").notNull(),
   regexPatterns: text("regex_patterns").array().notNull(),
+  includePatterns: text("include_patterns").array().notNull().default([]),
+  excludePatterns: text("exclude_patterns").array().notNull().default([]),
+  followPatterns: text("follow_patterns").array().notNull().default([]),
   maxDepth: integer("max_depth").notNull().default(2),
   requestDelay: integer("request_delay").notNull().default(1000),
   maxConcurrent: integer("max_concurrent").notNull().default(2),
   removeNavigation: boolean("remove_navigation").notNull().default(true),
   cleanFormatting: boolean("clean_formatting").notNull().default(true),
   includeImages: boolean("include_images").notNull().default(false),
-  status: text("status", { enum: ["pending", "running", "completed", "error"] }).notNull().default("pending"),
+  respectRobotsTxt: boolean("respect_robots_txt").notNull().default(true),
+  discoveryMode: text("discovery_mode", { enum: ["links", "sitemap", "both"] }).notNull().default("links"),
+  renderMode: text("render_mode", { enum: ["static", "browser", "auto"] }).notNull().default("browser"),
+  // "selectors" takes the first article/main/.content match; "readability" scores blocks by text and link density
+  extractionStrategy: text("extraction_strategy", { enum: ["selectors", "readability"] }).notNull().default("selectors"),
+  // Custom CSS selectors; when set, contentSelector overrides the extraction strategy
+  contentSelector: text("content_selector"),
+  titleSelector: text("title_selector"),
+  removeSelectors: text("remove_selectors").array().notNull().default([]),
+  // Elements matching these survive the built-in and custom removal lists
+  keepSelectors: text("keep_selectors").array().notNull().default([]),
+  urlNormalization: jsonb("url_normalization").$type<UrlNormalizationOptions>(),
+  // Retry policy: attempts per page, the first backoff (doubled each retry) and what to retry
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  retryBackoffMs: integer("retry_backoff_ms").notNull().default(1000),
+  retryOn: text("retry_on", { enum: errorCategories }).array().notNull().default(["timeout", "rate-limit", "server-error", "navigation"]),
+  // Higher runs first when jobs are waiting in the queue
+  priority: integer("priority").notNull().default(0),
+  status: text("status", { enum: ["pending", "running", "paused", "completed", "cancelled", "error"] }).notNull().default("pending"),
   totalPages: integer("total_pages").notNull().default(0),
   processedPages: integer("processed_pages").notNull().default(0),
+  // Requests per second the rate limiter currently allows to the job's host; null until it fetches
+  effectiveRate: real("effective_rate"),
+  // Set when this job re-crawls an earlier one; results are then compared with it
+  previousJobId: integer("previous_job_id"),
+  // The saved configuration, and its version at the time, this job was started from
+  configId: integer("config_id"),
+  configVersion: integer("config_version"),
+  assetCapture: text("asset_capture", { enum: ["none", "images", "all"] }).notNull().default("none"),
+  maxAssetBytes: integer("max_asset_bytes").notNull().default(10 * 1024 * 1024),
+  maxJobAssetBytes: integer("max_job_asset_bytes").notNull().default(200 * 1024 * 1024),
+  // Prepend YAML front matter with the page metadata to each exported file
+  frontMatter: boolean("front_matter").notNull().default(false),
+  checkpoint: jsonb("checkpoint").$type<CrawlCheckpoint>(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -32,16 +96,153 @@ export const crawlResults = pgTable("crawl_results", {
   content: text("content"),
   markdownContent: text("markdown_content"),
   fileSize: integer("file_size"),
-  status: text("status", { enum: ["success", "error"] }).notNull(),
+  status: text("status", { enum: ["success", "error", "skipped"] }).notNull(),
   errorMessage: text("error_message"),
+  errorCategory: text("error_category", { enum: errorCategories }),
+  // Fetches it took, retries included
+  attempts: integer("attempts"),
+  canonicalUrl: text("canonical_url"),
+  contentHash: text("content_hash"),
+  description: text("description"),
+  language: text("language"),
+  author: text("author"),
+  publishedAt: timestamp("published_at"),
+  modifiedAt: timestamp("modified_at"),
+  lastModified: timestamp("last_modified"),
+  etag: text("etag"),
+  httpLastModified: text("http_last_modified"),
+  changeStatus: text("change_status", { enum: ["new", "changed", "unchanged", "removed"] }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertCrawlJobSchema = createInsertSchema(crawlJobs).omit({
+// Files referenced by crawled pages. The bytes live on disk under their
+// content hash, so the same image used by many pages is stored once.
+export const crawlAssets = pgTable("crawl_assets", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull(),
+  sourceUrl: text("source_url").notNull(),
+  hash: text("hash").notNull(),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type"),
+  size: integer("size").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCrawlJobSchema = createInsertSchema(crawlJobs, {
+  urlNormalization: urlNormalizationSchema.nullish(),
+}).omit({
   id: true,
   status: true,
   totalPages: true,
   processedPages: true,
+  effectiveRate: true,
+  checkpoint: true,
+  createdAt: true,
+});
+
+// The job settings that shape how a single page is turned into markdown
+export const extractionOptionsSchema = insertCrawlJobSchema.pick({
+  removeNavigation: true,
+  cleanFormatting: true,
+  includeImages: true,
+  extractionStrategy: true,
+  contentSelector: true,
+  titleSelector: true,
+  removeSelectors: true,
+  keepSelectors: true,
+  urlNormalization: true,
+  renderMode: true,
+}).required();
+
+// The job settings that decide which links discovery follows and collects
+export const discoveryOptionsSchema = insertCrawlJobSchema.pick({
+  baseUrl: true,
+  regexPatterns: true,
+  includePatterns: true,
+  excludePatterns: true,
+  followPatterns: true,
+  maxDepth: true,
+  requestDelay: true,
+  maxConcurrent: true,
+  respectRobotsTxt: true,
+  renderMode: true,
+  urlNormalization: true,
+}).required();
+
+// Body of POST /api/preview and POST /api/test-selectors
+export const extractionRequestSchema = extractionOptionsSchema.extend({
+  url: z.string().url(),
+});
+
+// Everything about a job that a saved configuration remembers
+export const crawlConfigSettingsSchema = insertCrawlJobSchema.omit({
+  previousJobId: true,
+  configId: true,
+  configVersion: true,
+});
+
+// Named job settings that can be loaded back into the form or started directly.
+// Every update bumps the version, which jobs record alongside the config id.
+export const crawlConfigs = pgTable("crawl_configs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  version: integer("version").notNull().default(1),
+  settings: jsonb("settings").$type<CrawlConfigSettings>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertCrawlConfigSchema = createInsertSchema(crawlConfigs, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  settings: crawlConfigSettingsSchema,
+}).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Starts a job from a saved configuration whenever the cron expression comes due
+export const crawlSchedules = pgTable("crawl_schedules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  configId: integer("config_id").notNull(),
+  cronExpression: text("cron_expression").notNull(),
+  // IANA zone the cron expression is evaluated in, e.g. "Europe/Berlin"
+  timezone: text("timezone").notNull().default("UTC"),
+  enabled: boolean("enabled").notNull().default(true),
+  // Null while the schedule is disabled
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  // The job the last run started; a new run is skipped while it is still going
+  lastJobId: integer("last_job_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row each time a schedule came due, whether or not it started a job
+export const crawlScheduleRuns = pgTable("crawl_schedule_runs", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").notNull(),
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  outcome: text("outcome", { enum: ["started", "skipped", "failed"] }).notNull(),
+  jobId: integer("job_id"),
+  message: text("message"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCrawlScheduleSchema = createInsertSchema(crawlSchedules, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  cronExpression: (schema) => schema.trim().min(1, "Cron expression is required"),
+}).omit({
+  id: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  lastJobId: true,
+  createdAt: true,
+});
+
+export const insertCrawlScheduleRunSchema = createInsertSchema(crawlScheduleRuns).omit({
+  id: true,
   createdAt: true,
 });
 
@@ -50,6 +251,11 @@ export const insertCrawlResultSchema = createInsertSchema(crawlResults).omit({
   createdAt: true,
 });
 
+export const insertCrawlAssetSchema = createInsertSchema(crawlAssets).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -61,3 +267,107 @@ export type InsertCrawlJob = z.infer<typeof insertCrawlJobSchema>;
 export type CrawlJob = typeof crawlJobs.$inferSelect;
 export type InsertCrawlResult = z.infer<typeof insertCrawlResultSchema>;
 export type CrawlResult = typeof crawlResults.$inferSelect;
+export type ExtractionOptions = z.infer<typeof extractionOptionsSchema>;
+export type ExtractionRequest = z.infer<typeof extractionRequestSchema>;
+export type DiscoveryOptions = z.infer<typeof discoveryOptionsSchema>;
+export type CrawlConfigSettings = z.infer<typeof crawlConfigSettingsSchema>;
+export type InsertCrawlConfig = z.infer<typeof insertCrawlConfigSchema>;
+export type CrawlConfig = typeof crawlConfigs.$inferSelect;
+export type InsertCrawlSchedule = z.infer<typeof insertCrawlScheduleSchema>;
+export type CrawlSchedule = typeof crawlSchedules.$inferSelect;
+export type InsertCrawlScheduleRun = z.infer<typeof insertCrawlScheduleRunSchema>;
+export type CrawlScheduleRun = typeof crawlScheduleRuns.$inferSelect;
+export type InsertCrawlAsset = z.infer<typeof insertCrawlAssetSchema>;
+export type CrawlAsset = typeof crawlAssets.$inferSelect;
+
+// Pushed to clients over the /ws WebSocket while crawls run
+export type CrawlEvent =
+  | { type: "job"; job: CrawlJob }
+  | { type: "result"; result: CrawlResult }
+  | { type: "log"; jobId: number; level: "info" | "warn" | "error"; message: string; timestamp: string }
+  | { type: "queue"; queue: QueueStatus };
+
+// Returned by GET /api/queue and pushed to every client whenever it changes
+export interface QueuedJob {
+  jobId: number;
+  host: string;
+  priority: number;
+  // 1 is next in line, though a job whose host is at its limit can be passed over
+  position: number;
+}
+
+export interface QueueStatus {
+  workers: number;
+  maxJobsPerHost: number;
+  running: number[];
+  pending: QueuedJob[];
+}
+
+// Returned by GET /api/crawl-jobs/:id/diff/:otherId; pages are matched by canonical URL
+export interface CrawlDiffPage {
+  canonicalUrl: string;
+  url: string;
+  title: string | null;
+}
+
+export interface CrawlDiffChange extends CrawlDiffPage {
+  // Unified diff of markdownContent from the base job to the other job
+  diff: string;
+}
+
+export interface CrawlDiff {
+  baseJobId: number;
+  otherJobId: number;
+  added: CrawlDiffPage[];
+  removed: CrawlDiffPage[];
+  changed: CrawlDiffChange[];
+  unchangedCount: number;
+}
+
+// Returned by POST /api/test-selectors: how many elements each custom selector matched on the page
+export interface SelectorMatch {
+  kind: "content" | "title" | "remove" | "keep";
+  selector: string;
+  count: number;
+  error?: string;
+}
+
+export interface SelectorTestResult {
+  title: string;
+  markdownContent: string;
+  matches: SelectorMatch[];
+}
+
+// Returned by POST /api/preview
+export interface ExtractionPreview {
+  title: string;
+  // Cleaned HTML of the main content, before markdown conversion
+  content: string;
+  markdownContent: string;
+  timing: {
+    fetchMs: number;
+    extractMs: number;
+    // True when the page came from the short-lived preview cache instead of the network
+    cached: boolean;
+  };
+}
+
+// Returned by POST /api/discovery/dry-run: every link discovery saw, and what it would do with it
+export interface DryRunLink {
+  url: string;
+  depth: number;
+  // Under the base URL and allowed by the include/exclude patterns
+  inScope: boolean;
+  followed: boolean;
+  matched: boolean;
+  // First of regexPatterns that matched, if any
+  matchedPattern: string | null;
+}
+
+export interface DryRunResult {
+  links: DryRunLink[];
+  pagesVisited: number;
+  // True when discovery stopped at the page limit before reaching maxDepth
+  truncated: boolean;
+  errors: string[];
+}